@@ -1,8 +1,24 @@
 import { MultipartValueSingle } from "superagent";
 import supertest, { Test, Response, Request, CallbackHandler } from "supertest";
 import TestAgent from "supertest/lib/agent";
+import { App } from "supertest/types";
 const apiLogger = require('superagent-logger');
 import fs from 'fs';
+import { Server } from 'net';
+import { JsonSchema, validateJsonSchema, formatViolations } from "./JsonSchema";
+import { ContractExchange, OpenApiContract } from "./OpenApiContract";
+import { ApiContext } from "./ApiContext";
+import { queryJsonPath } from "../utils/utils";
+import { Matcher, findMismatches, formatMismatches, diff } from "./Matchers";
+import { SnapshotOptions, defaultSnapshotFile, matchSnapshot } from "./Snapshots";
+import { RetryPolicy, RetryAttempt, RetryDecision } from "./RetryPolicy";
+import { Timings, TimingPhase, trackTimings, formatTimings } from "./Timings";
+import { formatCurl, parseCurl, readRequest } from "./Curl";
+import { recordHar } from "./Har";
+import { AuthProvider } from "./Auth";
+import { bindServer, toServer } from "./AppServer";
+import { DownloadOptions, DownloadResult, DownloadTarget, createDownload } from "./Download";
+import { BodyType, assertBodyType } from "./BodyTypes";
 
 /**
  * Represents the available HTTP methods for API calls.
@@ -18,51 +34,343 @@ export enum ApiMethods {
     TRACE = 'TRACE'
 }
 
-export class ApiCall {
+/**
+ * The target of API calls: a base URL, an Express app or an http.Server.
+ * Apps and servers that are not listening yet are bound to an ephemeral port while
+ * calls to them are in flight, and closed again once the last response is received.
+ */
+export type ApiTarget = App;
+
+/**
+ * A step of a request spec, applied to each request built from the spec.
+ */
+type RequestStep = (req: Test, call: ApiCall) => unknown;
+
+/**
+ * What is needed to build a request again: its method, resolved path, and the configuration
+ * and assertion steps recorded by the setters and `expect…` methods, in order.
+ */
+export interface RequestSpec {
+    readonly method: ApiMethods;
+    readonly path: string;
+    readonly steps: ReadonlyArray<RequestStep>;
+    readonly assertions: ReadonlyArray<RequestStep>;
+    /** The body set with `setBody`, `setRawBody` or `setFormBody`, or the multipart fields and files by name. */
+    readonly body?: unknown;
+    /** Whether the body is sent as multipart/form-data, with fields and files set with `setMultipartField` and `attach`. */
+    readonly multipart?: boolean;
+    /** The retry policy set with `setRetryPolicy`. */
+    readonly retryPolicy?: RetryPolicy;
+    /** The authentication provider set with `setAuthProvider`. */
+    readonly authProvider?: AuthProvider;
+    /** The OpenAPI contract set with `expectContract`, checked after the other assertions. */
+    readonly contract?: OpenApiContract;
+    /** What `skipContract('request')` left to check: only the response. */
+    readonly contractScope?: 'response';
+}
 
-    private readonly _endpoint: string;
+/**
+ * Options of `pollUntil`.
+ */
+export interface PollOptions {
+    /** The wait between two attempts, in milliseconds. Defaults to 500. */
+    interval?: number;
+    /** How long to keep polling, in milliseconds. Defaults to 10000. */
+    timeout?: number;
+    /** The factor the wait grows by after each attempt. Defaults to 1, a constant interval. */
+    backoff?: number;
+}
+
+/**
+ * A response whose body was checked to be a `TBody`, see `ApiCall.as`.
+ */
+export type TypedResponse<TBody> = Omit<Response, 'body'> & { body: TBody };
+
+/**
+ * An API call: the request, its assertions and, once sent, the response.
+ * `TBody` is the type of the response body, set with `as`.
+ */
+export class ApiCall<TBody = any> {
+
+    private readonly _endpoint: string | Server;
     private readonly _agent: TestAgent<Test>;
-    private readonly req: Test;
+    private readonly _context: ApiContext;
+    private req: Test | undefined = undefined;
     private res: Response | undefined = undefined;
+    private _attempts: RetryAttempt[] = [];
+    private _timings: Timings | undefined = undefined;
+    private _spec: RequestSpec;
+
+    /**
+     * Creates a new API call.
+     * @param endpoint - The base URL, Express app or http.Server the request is sent to.
+     * @param method - The HTTP method of the request.
+     * @param path - The path appended to the endpoint, e.g. '/users/42'.
+     * @param agent - Optional agent to share cookies and default headers with other calls.
+     * @param context - Optional context to share variables with other calls.
+     * `{{name}}` placeholders in the path, query, headers and body are replaced when they are set.
+     */
+    constructor(endpoint: ApiTarget, method: ApiMethods, path: string = '', agent?: TestAgent<Test>, context?: ApiContext) {
+        this._endpoint = toServer(endpoint);
+        this._agent = agent ?? supertest.agent(this._endpoint);
+        this._context = context ?? new ApiContext();
+        const resolvedPath = this._context.interpolate(path, encodeURIComponent);
+        this._spec = Object.freeze({ method, path: resolvedPath, steps: [], assertions: [] });
+    }
+
+    /**
+     * Records a configuration step in the spec.
+     */
+    private addStep(step: RequestStep): ApiCall<TBody> {
+        this._spec = Object.freeze({ ...this._spec, steps: Object.freeze([...this._spec.steps, step]) });
+        return this;
+    }
+
+    /**
+     * Records a step that sets the body, and the body itself. Object bodies are merged,
+     * as superagent merges the objects of repeated `send` calls.
+     */
+    private addBodyStep(body: unknown, step: RequestStep): ApiCall<TBody> {
+        const previous = this._spec.multipart ? undefined : this._spec.body;
+        this._spec = Object.freeze({
+            ...this._spec,
+            body: isPlainObject(previous) && isPlainObject(body) ? { ...previous, ...body } : body,
+            multipart: false
+        });
+        return this.addStep(step);
+    }
+
+    /**
+     * Records a step that adds a multipart field or file, and the field itself.
+     */
+    private addMultipartStep(fieldName: string, value: unknown, step: RequestStep): ApiCall<TBody> {
+        const fields = this._spec.multipart && isPlainObject(this._spec.body) ? this._spec.body : {};
+        this._spec = Object.freeze({ ...this._spec, body: { ...fields, [fieldName]: value }, multipart: true });
+        return this.addStep(step);
+    }
+
+    /**
+     * Records an assertion step in the spec.
+     */
+    private addAssertion(step: RequestStep): ApiCall<TBody> {
+        this._spec = Object.freeze({ ...this._spec, assertions: Object.freeze([...this._spec.assertions, step]) });
+        return this;
+    }
+
+    /**
+     * Builds a new request from the spec. An app target must be bound with `bindServer` first,
+     * otherwise supertest binds it to a port of its own.
+     * @param withAssertions - Whether the assertion steps are applied too.
+     * @param gate - Checked before the assertions when the response arrives. It throws for a response
+     * that is not final, e.g. one that is retried, so that the assertions don't run on it.
+     */
+    private buildTest(withAssertions: boolean, gate?: (res: Response) => void): Test {
+        const req = this.getTest(this._spec.method, this._spec.path);
+        trackTimings(req, timings => this._timings = timings);
+        recordHar(req);
+        this._spec.steps.forEach(step => step(req, this));
+        if (withAssertions) {
+            if (gate) {
+                req.expect(gate);
+            }
+            this._spec.assertions.forEach(step => step(req, this));
+            const { contract, contractScope } = this._spec;
+            if (contract) {
+                req.expect((res: Response) => this.checkContract(contract, contractScope !== 'response', req, res));
+            }
+        }
+        return req;
+    }
+
+    /**
+     * Builds the request from the spec and sends it, with the assertions. Each resend, to answer an
+     * authentication challenge or by the retry policy, sends a new request, and the assertions
+     * are checked on the final response.
+     * @param options - `accept` is checked on the final response before the assertions and throws if it is
+     * not acceptable; `deadline` is the time, in milliseconds since the epoch, by which each attempt must complete.
+     * @returns The response.
+     */
+    private async send(options: { accept?: (res: Response) => void, deadline?: number } = {}): Promise<Response> {
+        const { retryPolicy: policy, authProvider: provider } = this._spec;
+        this._attempts = [];
+        for (let attempt = 1, resent = false; ;) {
+            let challenged = false;
+            let decision: RetryDecision | undefined;
+            let error: any;
+            const release = bindServer(this._endpoint);
+            try {
+                const req = this.buildTest(true, res => {
+                    challenged = provider?.onResponse?.(req, res, resent) ?? false;
+                    decision = !challenged && policy ? this.decideRetry(policy, req, attempt, undefined, res) : undefined;
+                    if (challenged || decision?.retry) {
+                        throw Error(challenged ? 'Answering the authentication challenge' : `Retrying after ${decision!.reason}`);
+                    }
+                    options.accept?.(res);
+                });
+                this.req = req;
+                if (options.deadline !== undefined) {
+                    req.timeout({ deadline: Math.max(1, options.deadline - Date.now()) });
+                }
+                if (policy) {
+                    // The policy replaces the retries of `setRetry`.
+                    req.retry(0);
+                    // supertest reports connection errors without their code, which the policy needs.
+                    req.on('error', err => error = err);
+                }
+                await provider?.authorize(req);
+                try {
+                    return await req;
+                } catch (err: any) {
+                    // Without a decision, the attempt failed before a response arrived.
+                    decision ??= !challenged && policy ? this.decideRetry(policy, req, attempt, error ?? err) : undefined;
+                    if (!challenged && !decision?.retry) {
+                        throw err;
+                    }
+                }
+            } finally {
+                release();
+            }
+            if (challenged) {
+                resent = true;
+            } else {
+                attempt++;
+                const delayMs = decision!.delayMs;
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    /**
+     * Asks the retry policy whether an attempt is retried, and records the attempt.
+     */
+    private decideRetry(policy: RetryPolicy, req: Test, attempt: number, error?: any, res?: Response): RetryDecision {
+        const decision = policy.decide(req.method, req.get('Idempotency-Key'), attempt, error, res);
+        this._attempts.push({
+            attempt,
+            ...(res?.status !== undefined ? { status: res.status } : { error: error?.code ?? error?.message }),
+            retried: decision.retry,
+            ...(decision.retry ? { delayMs: decision.delayMs } : {}),
+            reason: decision.reason
+        });
+        return decision;
+    }
+
+    /**
+     * Gets the request that was sent last, or builds one from the spec for inspection if the call wasn't sent yet.
+     */
+    private inspectRequest(): Test {
+        if (this.req) {
+            return this.req;
+        }
+        const release = bindServer(this._endpoint);
+        try {
+            return this.buildTest(false);
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Gets the spec of the request: its method, path and recorded steps. The spec is immutable;
+     * setters called later record a new spec.
+     * @returns The request spec.
+     */
+    public getSpec(): RequestSpec {
+        return this._spec;
+    }
 
-    constructor(endpoint: string, method: ApiMethods) {
-        this._endpoint = endpoint;
-        this._agent = supertest.agent(this._endpoint);
-        this.req = this.getTest(method);
+    /**
+     * Creates an unsent copy of the API call with the same spec, sharing the agent and context.
+     * Bodies and attachments given as streams can only be sent once.
+     * @returns The new ApiCall instance.
+     */
+    public clone(): ApiCall<TBody> {
+        // Not through the constructor, which would interpolate the resolved path again.
+        const copy: ApiCall<TBody> = Object.create(ApiCall.prototype);
+        return Object.assign(copy, {
+            _endpoint: this._endpoint,
+            _agent: this._agent,
+            _context: this._context,
+            req: undefined,
+            res: undefined,
+            _attempts: [],
+            _timings: undefined,
+            _spec: this._spec
+        });
+    }
+
+    /**
+     * Creates an API call from a curl command, e.g. one copied from the browser devtools.
+     * Values are used as they are: `{{name}}` placeholders are not filled.
+     * @param command - The curl command.
+     * @param context - Optional context to share variables with other calls.
+     * @returns The new ApiCall instance.
+     */
+    public static fromCurl(command: string, context?: ApiContext): ApiCall {
+        const request = parseCurl(command);
+        const method = ApiMethods[request.method as keyof typeof ApiMethods];
+        if (!method) {
+            throw Error(`The HTTP method '${request.method}' of the curl command is not supported.`);
+        }
+        const url = new URL(request.url);
+        const call = new ApiCall(url.origin, method, url.pathname, undefined, context);
+        if (url.search) {
+            call.addStep(req => req.query(url.search.slice(1)));
+        }
+        if (Object.keys(request.headers).length > 0) {
+            call.addStep(req => req.set(request.headers));
+        }
+        if (request.user !== undefined) {
+            const [user, ...password] = request.user.split(':');
+            call.setBasicAuth(user, password.join(':'));
+        }
+        if (request.body !== undefined) {
+            call.setRawBody(request.body);
+        }
+        request.form.forEach(field => field.file === undefined
+            ? call.setMultipartField(field.name, field.value ?? '')
+            : call.attach(field.name, field.file, { filename: field.filename, contentType: field.contentType }));
+        if (request.insecure) {
+            call.disableTLSCerts();
+        }
+        if (request.timeout !== undefined) {
+            call.setTimeout(request.timeout);
+        }
+        return call.setRedirect(request.redirects);
     }
 
-    private getTest(method: ApiMethods) {
+    private getTest(method: ApiMethods, path: string) {
         switch (method) {
             case ApiMethods.GET:
-                return this._agent.get('');
+                return this._agent.get(path);
                 break;
 
             case ApiMethods.POST:
-                return this._agent.post('');
+                return this._agent.post(path);
                 break;
 
-            case ApiMethods.POST:
-                return this._agent.patch('');
+            case ApiMethods.PATCH:
+                return this._agent.patch(path);
                 break;
 
             case ApiMethods.PUT:
-                return this._agent.put('');
+                return this._agent.put(path);
                 break;
 
             case ApiMethods.DELETE:
-                return this._agent.delete('');
+                return this._agent.delete(path);
                 break;
 
             case ApiMethods.HEAD:
-                return this._agent.head('');
+                return this._agent.head(path);
                 break;
 
             case ApiMethods.OPTIONS:
-                return this._agent.options('');
+                return this._agent.options(path);
                 break;
 
             case ApiMethods.TRACE:
-                return this._agent.trace('');
+                return this._agent.trace(path);
                 break;
 
             default:
@@ -75,9 +383,9 @@ export class ApiCall {
      * @param headers - The headers to be set.
      * @returns The ApiCall instance.
      */
-    public setHeaders(headers: Record<string, string>): ApiCall {
-        this.req.set(headers);
-        return this;
+    public setHeaders(headers: Record<string, string>): ApiCall<TBody> {
+        const resolved = this._context.interpolate(headers, String);
+        return this.addStep(req => req.set(resolved));
     }
 
     /**
@@ -86,9 +394,9 @@ export class ApiCall {
      * @param value - The header value.
      * @returns The ApiCall instance.
      */
-    public setHeader(key: string, value: string): ApiCall {
-        this.req.set(key, value);
-        return this;
+    public setHeader(key: string, value: string): ApiCall<TBody> {
+        const resolved = this._context.interpolate(value, String);
+        return this.addStep(req => req.set(key, resolved));
     }
 
     /**
@@ -96,9 +404,8 @@ export class ApiCall {
      * @param key - The header key to be unset.
      * @returns The ApiCall instance.
      */
-    public unsetHeader(key: string): ApiCall {
-        this.req.unset(key);
-        return this;
+    public unsetHeader(key: string): ApiCall<TBody> {
+        return this.addStep(req => req.unset(key));
     }
 
     /**
@@ -118,9 +425,8 @@ export class ApiCall {
             | 'text/plain'
             | 'multipart/form-data'
             | string
-    ): ApiCall {
-        this.req.type(value);
-        return this;
+    ): ApiCall<TBody> {
+        return this.addStep(req => req.type(value));
     }
 
     /**
@@ -129,9 +435,9 @@ export class ApiCall {
      * @param value - The query parameter value.
      * @returns The ApiCall instance.
      */
-    public setQueryParam(key: string, value: string): ApiCall {
-        this.req.query({ key, value });
-        return this;
+    public setQueryParam(key: string, value: string): ApiCall<TBody> {
+        const resolved = this._context.interpolate(value, String);
+        return this.addStep(req => req.query({ [key]: resolved }));
     }
 
     /**
@@ -139,9 +445,9 @@ export class ApiCall {
      * @param query - The query parameters as key-value pairs.
      * @returns The ApiCall instance.
      */
-    public setQueryParams(query: Record<string, string>): ApiCall {
-        this.req.query(query);
-        return this;
+    public setQueryParams(query: Record<string, string>): ApiCall<TBody> {
+        const resolved = this._context.interpolate(query, String);
+        return this.addStep(req => req.query(resolved));
     }
 
     /**
@@ -149,9 +455,9 @@ export class ApiCall {
      * @param query - The query string.
      * @returns The ApiCall instance.
      */
-    public setQuery(query: string): ApiCall {
-        this.req.query(query);
-        return this;
+    public setQuery(query: string): ApiCall<TBody> {
+        const resolved = this._context.interpolate(query, encodeURIComponent);
+        return this.addStep(req => req.query(resolved));
     }
 
     /**
@@ -159,9 +465,19 @@ export class ApiCall {
      * @param body - The body of the API call.
      * @returns The ApiCall instance.
      */
-    public setBody(body: string | Record<string, object>): ApiCall {
-        this.req.send(body);
-        return this;
+    public setBody(body: string | object): ApiCall<TBody> {
+        const resolved = this._context.interpolate(body);
+        return this.addBodyStep(resolved, req => req.send(resolved));
+    }
+
+    /**
+     * Sets the body for the API call as is, without filling `{{name}}` placeholders,
+     * e.g. for a body that contains templates of its own.
+     * @param body - The body of the API call.
+     * @returns The ApiCall instance.
+     */
+    public setRawBody(body: string | object): ApiCall<TBody> {
+        return this.addBodyStep(body, req => req.send(body));
     }
 
     /**
@@ -169,9 +485,8 @@ export class ApiCall {
      * @param body - The form body of the API call.
      * @returns The ApiCall instance.
      */
-    public setFormBody(body: FormData): ApiCall {
-        this.req.send(body);
-        return this;
+    public setFormBody(body: FormData): ApiCall<TBody> {
+        return this.addBodyStep(body, req => req.send(body));
     }
 
     /**
@@ -190,9 +505,8 @@ export class ApiCall {
                 filename?: string | undefined;
                 contentType?: string | undefined;
             }
-    ): ApiCall {
-        this.req.attach(fieldName, file, options);
-        return this;
+    ): ApiCall<TBody> {
+        return this.addMultipartStep(fieldName, file, req => req.attach(fieldName, file, options));
     }
 
     /**
@@ -201,9 +515,8 @@ export class ApiCall {
      * @param file - The image file to be attached.
      * @returns The ApiCall instance.
      */
-    public attachImage(fieldName: string, file: MultipartValueSingle): ApiCall {
-        this.req.attach(fieldName, file);
-        return this;
+    public attachImage(fieldName: string, file: MultipartValueSingle): ApiCall<TBody> {
+        return this.addMultipartStep(fieldName, file, req => req.attach(fieldName, file));
     }
 
     /**
@@ -211,9 +524,8 @@ export class ApiCall {
      * @param handler - The error handler function.
      * @returns The ApiCall instance.
      */
-    public setOnceErrorHandler(handler: (err: any) => void): ApiCall {
-        this.req.once('error', handler);
-        return this;
+    public setOnceErrorHandler(handler: (err: any) => void): ApiCall<TBody> {
+        return this.addStep(req => req.once('error', handler));
     }
 
     /**
@@ -221,9 +533,8 @@ export class ApiCall {
      * @param handler - The error handler function.
      * @returns The ApiCall instance.
      */
-    public setOnErrorHandler(handler: (err: any) => void): ApiCall {
-        this.req.on('error', handler);
-        return this;
+    public setOnErrorHandler(handler: (err: any) => void): ApiCall<TBody> {
+        return this.addStep(req => req.on('error', handler));
     }
 
     /**
@@ -231,9 +542,8 @@ export class ApiCall {
      * @param handler - The response handler function.
      * @returns The ApiCall instance.
      */
-    public setOnceResponseHandler(handler: (err: any) => void): ApiCall {
-        this.req.once('response', handler);
-        return this;
+    public setOnceResponseHandler(handler: (err: any) => void): ApiCall<TBody> {
+        return this.addStep(req => req.once('response', handler));
     }
 
     /**
@@ -241,9 +551,8 @@ export class ApiCall {
      * @param handler - The response handler function.
      * @returns The ApiCall instance.
      */
-    public setOnResponseHandler(handler: (err: any) => void): ApiCall {
-        this.req.on('response', handler);
-        return this;
+    public setOnResponseHandler(handler: (err: any) => void): ApiCall<TBody> {
+        return this.addStep(req => req.on('response', handler));
     }
 
     /**
@@ -251,9 +560,8 @@ export class ApiCall {
      * @param ipAddress - The IP address to direct the API call to.
      * @returns The ApiCall instance.
      */
-    public directRequestTo(ipAddress: string): ApiCall {
-        this.req.connect(ipAddress);
-        return this;
+    public directRequestTo(ipAddress: string): ApiCall<TBody> {
+        return this.addStep(req => req.connect(ipAddress));
     }
 
     /**
@@ -261,9 +569,8 @@ export class ApiCall {
      * @param enable - Whether to enable or disable trusting the local host.
      * @returns The ApiCall instance.
      */
-    public trustLocalHost(enable: boolean = true): ApiCall {
-        this.req.trustLocalhost(enable);
-        return this;
+    public trustLocalHost(enable: boolean = true): ApiCall<TBody> {
+        return this.addStep(req => req.trustLocalhost(enable));
     }
 
     /**
@@ -271,9 +578,8 @@ export class ApiCall {
      * @param ipAddresses - The IP addresses to direct the API call to.
      * @returns The ApiCall instance.
      */
-    public directRequestsTo(ipAddresses: Record<string, string>): ApiCall {
-        this.req.connect(ipAddresses);
-        return this;
+    public directRequestsTo(ipAddresses: Record<string, string>): ApiCall<TBody> {
+        return this.addStep(req => req.connect(ipAddresses));
     }
 
     /**
@@ -281,9 +587,8 @@ export class ApiCall {
      * @param callback - The callback function to determine the success condition.
      * @returns The ApiCall instance.
      */
-    public setSuccessCondition(callback: (res: Response) => boolean): ApiCall {
-        this.req.ok(callback);
-        return this;
+    public setSuccessCondition(callback: (res: Response) => boolean): ApiCall<TBody> {
+        return this.addStep(req => req.ok(callback));
     }
 
     /**
@@ -295,9 +600,8 @@ export class ApiCall {
     public setMultipartField(fieldName: string,
         fieldValue:
             | (string | number | boolean | Buffer | fs.ReadStream)
-            | Array<string | number | boolean | Buffer | fs.ReadStream>): ApiCall {
-        this.req.field(fieldName, fieldValue);
-        return this;
+            | Array<string | number | boolean | Buffer | fs.ReadStream>): ApiCall<TBody> {
+        return this.addMultipartStep(fieldName, fieldValue, req => req.field(fieldName, fieldValue));
     }
 
     /**
@@ -305,18 +609,16 @@ export class ApiCall {
      * @param type - The type of the API call.
      * @returns The ApiCall instance.
      */
-    public setType(type: 'json' | 'form' = 'json'): ApiCall {
-        this.req.send(type);
-        return this;
+    public setType(type: 'json' | 'form' = 'json'): ApiCall<TBody> {
+        return this.addStep(req => req.send(type));
     }
 
     /**
      * Disables TLS certificates for the API call.
      * @returns The ApiCall instance.
      */
-    public disableTLSCerts(): ApiCall {
-        this.req.disableTLSCerts();
-        return this;
+    public disableTLSCerts(): ApiCall<TBody> {
+        return this.addStep(req => req.disableTLSCerts());
     }
 
     /**
@@ -324,17 +626,16 @@ export class ApiCall {
      * @param ca - The CA certificate.
      * @returns The ApiCall instance.
      */
-    public setCaCertificate(ca: string): ApiCall {
-        this.req.ca(ca);
-        return this;
+    public setCaCertificate(ca: string): ApiCall<TBody> {
+        return this.addStep(req => req.ca(ca));
     }
 
     /**
-     * Aborts the API call.
+     * Aborts the API call, if it is in flight.
      * @returns The ApiCall instance.
      */
-    public abort(): ApiCall {
-        this.req.abort();
+    public abort(): ApiCall<TBody> {
+        this.req?.abort();
         return this;
     }
 
@@ -344,9 +645,11 @@ export class ApiCall {
      * @param timestamp - log timestamp
      * @returns The ApiCall instance.
      */
-    public enableLogging(outgoing: boolean = true, timestamp: boolean = true): ApiCall {
-        this.req.use(apiLogger({ outgoing, timestamp }));
-        return this;
+    public enableLogging(outgoing: boolean = true, timestamp: boolean = true): ApiCall<TBody> {
+        return this.addStep((req, call) => {
+            req.use(apiLogger({ outgoing, timestamp }));
+            req.on('response', () => call._timings && console.log(`      ${formatTimings(call._timings)}`));
+        });
     }
 
     /**
@@ -354,9 +657,8 @@ export class ApiCall {
      * @param pvtKey - The client private key.
      * @returns The ApiCall instance.
      */
-    public setClientPvtKey(pvtKey: string): ApiCall {
-        this.req.key(pvtKey);
-        return this;
+    public setClientPvtKey(pvtKey: string): ApiCall<TBody> {
+        return this.addStep(req => req.key(pvtKey));
     }
 
     /**
@@ -364,9 +666,8 @@ export class ApiCall {
      * @param clientCert - The client certificate.
      * @returns The ApiCall instance.
      */
-    public setClientCertificate(clientCert: string): ApiCall {
-        this.req.cert(clientCert);
-        return this;
+    public setClientCertificate(clientCert: string): ApiCall<TBody> {
+        return this.addStep(req => req.cert(clientCert));
     }
 
     /**
@@ -374,9 +675,8 @@ export class ApiCall {
      * @param type - The accept type.
      * @returns The ApiCall instance.
      */
-    public setAccept(type: 'json' | 'png' | 'application/json' | 'string' = 'json'): ApiCall {
-        this.req.send(type);
-        return this;
+    public setAccept(type: 'json' | 'png' | 'application/json' | 'string' = 'json'): ApiCall<TBody> {
+        return this.addStep(req => req.send(type));
     }
 
     /**
@@ -384,9 +684,8 @@ export class ApiCall {
      * @param token - The bearer authentication token.
      * @returns The ApiCall instance.
      */
-    public setBearerAuthToken(token: string): ApiCall {
-        this.req.set('Authorization', `Bearer ${token}`);
-        return this;
+    public setBearerAuthToken(token: string): ApiCall<TBody> {
+        return this.addStep(req => req.set('Authorization', `Bearer ${token}`));
     }
 
     /**
@@ -394,18 +693,29 @@ export class ApiCall {
      * @param token - The basic authentication token.
      * @returns The ApiCall instance.
      */
-    public setBasicAuthToken(token: string): ApiCall {
-        this.req.set('Authorization', `Basic ${token}`);
-        return this;
+    public setBasicAuthToken(token: string): ApiCall<TBody> {
+        return this.addStep(req => req.set('Authorization', `Basic ${token}`));
     }
 
     /**
-     * Sets the digest authentication token for the API call.
+     * Sets the digest authentication token for the API call. The token is sent as is;
+     * for the challenge-response, use `setAuthProvider(new DigestAuth(user, password))`.
      * @param token - The digest authentication token.
      * @returns The ApiCall instance.
      */
-    public setDigestAuthToken(token: string): ApiCall {
-        this.req.set('Authorization', `Digest ${token}`);
+    public setDigestAuthToken(token: string): ApiCall<TBody> {
+        return this.addStep(req => req.set('Authorization', `Digest ${token}`));
+    }
+
+    /**
+     * Sets an authentication provider for the API call, e.g. OAuth2, Digest or HMAC signing.
+     * The provider authorizes the request when it is sent, and each request that is sent again
+     * to answer a challenge or by a retry policy.
+     * @param provider - The authentication provider.
+     * @returns The ApiCall instance.
+     */
+    public setAuthProvider(provider: AuthProvider): ApiCall<TBody> {
+        this._spec = Object.freeze({ ...this._spec, authProvider: provider });
         return this;
     }
 
@@ -414,9 +724,8 @@ export class ApiCall {
      * @param token - The bearer authentication token.
      * @returns The ApiCall instance.
      */
-    public setBearerAuth(token: string): ApiCall {
-        this.req.auth(token, { type: 'bearer' });
-        return this;
+    public setBearerAuth(token: string): ApiCall<TBody> {
+        return this.addStep(req => req.auth(token, { type: 'bearer' }));
     }
 
     /**
@@ -426,9 +735,8 @@ export class ApiCall {
      * @param option - The authentication option.
      * @returns The ApiCall instance.
      */
-    public setAuth(user: string, password: string, option: { type: 'auto' | 'basic' }): ApiCall {
-        this.req.auth(user, password, option);
-        return this;
+    public setAuth(user: string, password: string, option: { type: 'auto' | 'basic' }): ApiCall<TBody> {
+        return this.addStep(req => req.auth(user, password, option));
     }
 
     /**
@@ -437,9 +745,8 @@ export class ApiCall {
      * @param password - The password for basic authentication.
      * @returns The ApiCall instance.
      */
-    public setBasicAuth(user: string, password: string): ApiCall {
-        this.req.auth(user, password, { type: 'basic' });
-        return this;
+    public setBasicAuth(user: string, password: string): ApiCall<TBody> {
+        return this.addStep(req => req.auth(user, password, { type: 'basic' }));
     }
 
     /**
@@ -447,9 +754,8 @@ export class ApiCall {
      * @param serializer - The serializer.
      * @returns The ApiCall instance.
      */
-    public setSerialize(serializer: (obj: any) => string): ApiCall {
-        this.req.serialize(serializer);
-        return this;
+    public setSerialize(serializer: (obj: any) => string): ApiCall<TBody> {
+        return this.addStep(req => req.serialize(serializer));
     }
 
     /**
@@ -457,9 +763,8 @@ export class ApiCall {
      * @param parser - The parser.
      * @returns The ApiCall instance.
      */
-    public setParser(parser: ((str: string) => any) | ((res: Response, callback: (err: Error | null, body: any) => void) => void)): ApiCall {
-        this.req.parse(parser);
-        return this;
+    public setParser(parser: ((str: string) => any) | ((res: Response, callback: (err: Error | null, body: any) => void) => void)): ApiCall<TBody> {
+        return this.addStep(req => req.parse(parser));
     }
 
     /**
@@ -468,19 +773,37 @@ export class ApiCall {
      * @param callback - The callback function to handle retries.
      * @returns The ApiCall instance.
      */
-    public setRetry(count: number, callback?: (err: Error, re: Response) => void): ApiCall {
-        this.req.retry(count, callback);
+    public setRetry(count: number, callback?: (err: Error, re: Response) => void): ApiCall<TBody> {
+        return this.addStep(req => req.retry(count, callback));
+    }
+
+    /**
+     * Sets a retry policy for the API call, replacing the fixed-count retry of `setRetry`.
+     * Each attempt sends the request anew; the assertions are checked on the final response.
+     * Every attempt is recorded and can be read with `getAttempts`.
+     * @param policy - The retry policy.
+     * @returns The ApiCall instance.
+     */
+    public setRetryPolicy(policy: RetryPolicy): ApiCall<TBody> {
+        this._spec = Object.freeze({ ...this._spec, retryPolicy: policy });
         return this;
     }
 
+    /**
+     * Gets the attempts made under the retry policy.
+     * @returns The attempts, in order.
+     */
+    public getAttempts(): RetryAttempt[] {
+        return [...this._attempts];
+    }
+
     /**
      * Sets the redirect count for the API call.
      * @param count - The number of redirects.
      * @returns The ApiCall instance.
      */
-    public setRedirect(count: number): ApiCall {
-        this.req.redirects(count);
-        return this;
+    public setRedirect(count: number): ApiCall<TBody> {
+        return this.addStep(req => req.redirects(count));
     }
 
     /**
@@ -488,9 +811,8 @@ export class ApiCall {
      * @param fn - The plugin function.
      * @returns The ApiCall instance.
      */
-    public setPlugin(fn: (req: Request) => void): ApiCall {
-        this.req.use(fn);
-        return this;
+    public setPlugin(fn: (req: Request) => void): ApiCall<TBody> {
+        return this.addStep(req => req.use(fn));
     }
 
     /**
@@ -498,18 +820,16 @@ export class ApiCall {
      * @param ms - The timeout in milliseconds.
      * @returns The ApiCall instance.
      */
-    public setTimeout(ms: number | { deadline?: number | undefined; response?: number | undefined }): ApiCall {
-        this.req.timeout(ms);
-        return this;
+    public setTimeout(ms: number | { deadline?: number | undefined; response?: number | undefined }): ApiCall<TBody> {
+        return this.addStep(req => req.timeout(ms));
     }
 
     /**
      * Clears the timeout for the API call.
      * @returns The ApiCall instance.
      */
-    public clearTimeout(): ApiCall {
-        this.req.clearTimeout();
-        return this;
+    public clearTimeout(): ApiCall<TBody> {
+        return this.addStep(req => req.clearTimeout());
     }
 
     /**
@@ -517,9 +837,8 @@ export class ApiCall {
      * @param enable - Whether to enable or disable HTTP/2.
      * @returns The ApiCall instance.
      */
-    public enableHttp2(enable: boolean): ApiCall {
-        this.req.http2(enable);
-        return this;
+    public enableHttp2(enable: boolean): ApiCall<TBody> {
+        return this.addStep(req => req.http2(enable));
     }
 
     /**
@@ -527,9 +846,32 @@ export class ApiCall {
      * @param enable - Whether to enable or disable buffering.
      * @returns The ApiCall instance.
      */
-    public setBuffer(enable: boolean): ApiCall {
-        this.req.buffer(enable);
-        return this;
+    public setBuffer(enable: boolean): ApiCall<TBody> {
+        return this.addStep(req => req.buffer(enable));
+    }
+
+    /**
+     * Streams a successful response body to a file or stream instead of buffering it, e.g. for large exports.
+     * The call completes once the body has been written, and the response body is a `DownloadResult`
+     * with the size and SHA-256 checksum; check them with `expectDownloadSize` and `expectDownloadSha256`.
+     * Other responses are buffered as usual.
+     * @param target - The file path or writable stream.
+     * @param options - `resume: true` continues a partial file with a `Range` request.
+     * @returns The ApiCall instance.
+     */
+    public downloadTo(target: DownloadTarget, options: DownloadOptions = {}): ApiCall<TBody> {
+        // Shared by the attempts of a retried call, so that a retry continues the same download.
+        const downloads = new WeakMap<ApiCall, ReturnType<typeof createDownload>>();
+        return this.addStep((req, call) => {
+            if (!downloads.has(call)) {
+                downloads.set(call, createDownload(target, options));
+            }
+            const { range, parser } = downloads.get(call)!;
+            if (range) {
+                req.set('Range', range);
+            }
+            req.buffer(true).maxResponseSize(Number.MAX_SAFE_INTEGER).parse(parser);
+        });
     }
 
     /**
@@ -537,7 +879,16 @@ export class ApiCall {
      * @returns A promise that resolves
      */
     public getReqAsJson(enable: boolean): { method: string; url: string; data?: string | object; headers: Array<string | string[]> } {
-        return this.req.toJSON();
+        return this.inspectRequest().toJSON();
+    }
+
+    /**
+     * Formats the request as an equivalent curl command, with its headers, authorization, body and multipart fields.
+     * Files attached as buffers are referenced by their file name.
+     * @returns The curl command.
+     */
+    public toCurl(): string {
+        return formatCurl(readRequest(this.inspectRequest()));
     }
 
     // /**
@@ -689,9 +1040,8 @@ export class ApiCall {
      * @param status - expected response status code.
      * @returns The ApiCall instance.
      */
-    public expectStatus(status: number): ApiCall {
-        this.req.expect(status);
-        return this;
+    public expectStatus(status: number): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect(status));
     }
 
 
@@ -700,9 +1050,8 @@ export class ApiCall {
      * @param checker - callback with all the checks on the response, e.g. res => res.body.should.have.property('name');
      * @returns The ApiCall instance.
      */
-    public expectResponse(checker: (res: Response) => any): ApiCall {
-        this.req.expect(checker);
-        return this;
+    public expectResponse(checker: (res: Response) => any): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect(checker));
     }
 
     /**
@@ -710,16 +1059,275 @@ export class ApiCall {
      * @param status - expected response body.
      * @returns The ApiCall instance.
      */
-    public expectBody(body: object): ApiCall {
-        this.req.expect(body);
+    public expectBody(body: object): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect(body));
+    }
+
+    /**
+     * Assert response body to be valid against the given JSON Schema (draft 2020-12).
+     * Every violation is reported with the JSON pointer of the offending value.
+     * @param schema - expected JSON Schema of the response body, e.g. schemaFromMongoose(UserSchema).
+     * @returns The ApiCall instance.
+     */
+    public expectJsonSchema(schema: JsonSchema): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const violations = validateJsonSchema(schema, res.body);
+            if (violations.length > 0) {
+                throw Error(`Response body does not match the JSON Schema:\n${formatViolations(violations)}`);
+            }
+        }));
+    }
+
+    /**
+     * Types the response body: the body is checked against the body type when the response arrives,
+     * failing the call with every field that doesn't match, and `done()` and `getResponseBody()` return it as a `T`.
+     * @param type - The body type, e.g. UserType, or arrayOf(UserType) for a list.
+     * @returns The ApiCall instance, typed with the body type.
+     */
+    public as<T>(type: BodyType<T>): ApiCall<T> {
+        this.addAssertion(req => req.expect((res: Response) => {
+            assertBodyType(type, res.body);
+        }));
+        return this as unknown as ApiCall<T>;
+    }
+
+    /**
+     * Assert request and response to match the OpenAPI contract.
+     * The operation is looked up by method and path; undocumented status codes, unexpected content types
+     * and request or response bodies that don't match the schemas fail the call.
+     * Calls of an `ApiClient` with a contract, see `ApiClient.setContract`, are checked without it.
+     * @param contract - the OpenAPI contract, e.g. new OpenApiContract(require('../express-app/openapi.json')).
+     * @returns The ApiCall instance.
+     */
+    public expectContract(contract: OpenApiContract): ApiCall<TBody> {
+        this._spec = Object.freeze({ ...this._spec, contract });
         return this;
     }
 
-    public expectField(fieldName: string, value: string): ApiCall {
-        this.req.expect(fieldName, value);
+    /**
+     * Leaves the call unchecked against its contract, e.g. for a negative test that sends an invalid request
+     * on purpose. With 'request', the response is still checked, e.g. to be a documented error.
+     * @param part - 'all' to skip the check, or 'request' to skip only the request part of it.
+     * @returns The ApiCall instance.
+     */
+    public skipContract(part: 'all' | 'request' = 'all'): ApiCall<TBody> {
+        this._spec = Object.freeze(part === 'all'
+            ? { ...this._spec, contract: undefined, contractScope: undefined }
+            : { ...this._spec, contractScope: 'response' as const });
         return this;
     }
 
+    /**
+     * Checks a request and its response against a contract.
+     * @throws If they don't match the contract.
+     */
+    private checkContract(contract: OpenApiContract, checkRequest: boolean, req: Test, res: Response): void {
+        // The URL has the query string once the request is sent.
+        const { method, url, headers } = req.toJSON();
+        const target = new URL(url);
+        const { body, multipart } = this._spec;
+        const requestHeaders: Record<string, string> = Object.fromEntries(
+            Object.entries(headers).map(([key, value]) => [key.toLowerCase(), String(value)])
+        );
+        if (multipart) {
+            // Set by the form when it is sent, with its boundary.
+            requestHeaders['content-type'] = 'multipart/form-data';
+        }
+        const exchange: ContractExchange = {
+            method,
+            path: `${target.pathname}${target.search}`,
+            requestHeaders,
+            // Multipart bodies are only checked for their Content-Type, so the fields stand in for the body.
+            requestBody: body,
+            status: res.status,
+            responseHeaders: res.headers,
+            responseBody: res.body,
+            hasResponseBody: Boolean(res.text) || (Buffer.isBuffer(res.body) && res.body.length > 0)
+        };
+        const matched = checkRequest ? undefined : contract.findOperation(exchange.method, exchange.path);
+        const errors = matched ? contract.validateResponse(matched, exchange) : contract.validate(exchange);
+        if (errors.length > 0) {
+            throw Error(`API call does not match the OpenAPI contract:\n${errors.join('\n')}`);
+        }
+    }
+
+    /**
+     * Assert response body to contain the given values. Objects match partially, so properties such as
+     * `_id` or `__v` can be left out, and values can be matchers, e.g. { _id: match.objectId(), age: 30 }.
+     * @param partial - expected part of the response body.
+     * @returns The ApiCall instance.
+     */
+    public expectBodyContaining(partial: unknown): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const mismatches = findMismatches(partial, res.body);
+            if (mismatches.length > 0) {
+                throw Error(`Response body does not contain the expected values:\n${formatMismatches(mismatches)}\n\n${diff(partial, res.body)}`);
+            }
+        }));
+    }
+
+    /**
+     * Assert the value at a JSONPath of the response body to match.
+     * A path with several matches is compared as an array of the matched values.
+     * @param path - JSONPath of the value, e.g. '$[0].age' or '$[*].job'.
+     * @param expected - expected value or matcher, e.g. match.numberInRange(18, 65).
+     * @returns The ApiCall instance.
+     */
+    public expectJsonPath(path: string, expected: Matcher | unknown): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const matches = queryJsonPath(res.body, path);
+            if (matches.length === 0) {
+                throw Error(`JSONPath '${path}' matched nothing in the response body.`);
+            }
+            const actual = matches.length === 1 ? matches[0] : matches;
+            const mismatches = findMismatches(expected, actual, path);
+            if (mismatches.length > 0) {
+                throw Error(`Response body does not match at '${path}':\n${formatMismatches(mismatches)}\n\n${diff(expected, actual)}`);
+            }
+        }));
+    }
+
+    /**
+     * Assert response status, selected headers and body to match a stored snapshot.
+     * Dynamic values are redacted by JSONPath rules, by default `_id`, `__v` and the date header.
+     * Missing snapshots are written; run with UPDATE_SNAPSHOTS=1 to rewrite changed ones.
+     * @param name - name of the snapshot, unique within the test file.
+     * @param options - headers to store, redaction rules and snapshot file.
+     * @returns The ApiCall instance.
+     */
+    public expectMatchesSnapshot(name: string, options: SnapshotOptions = {}): ApiCall<TBody> {
+        // The snapshot file is found from the stack now, while the test file is still calling.
+        const file = options.file ?? defaultSnapshotFile();
+        const assertion = Symbol(name);
+        return this.addAssertion(req => req.expect((res: Response) => {
+            matchSnapshot(name, res, file, options, assertion);
+        }));
+    }
+
+    /**
+     * Assert the whole call, from sending the request to the last byte of the response, to take less than the given time.
+     * @param ms - The time limit in milliseconds.
+     * @returns The ApiCall instance.
+     */
+    public expectResponseTimeBelow(ms: number): ApiCall<TBody> {
+        return this.expectPhaseBelow('total', ms);
+    }
+
+    /**
+     * Assert a phase of the call to take less than the given time.
+     * @param phase - The phase: 'dns', 'tcp', 'tls', 'firstByte', 'download' or 'total'.
+     * @param ms - The time limit in milliseconds.
+     * @returns The ApiCall instance.
+     */
+    public expectPhaseBelow(phase: TimingPhase, ms: number): ApiCall<TBody> {
+        return this.addAssertion((req, call) => req.expect(() => {
+            const timings = call.getTimings();
+            if (timings[phase] >= ms) {
+                throw Error(`Expected ${phase} time below ${ms} ms, got ${timings[phase]} ms: ${formatTimings(timings)}`);
+            }
+        }));
+    }
+
+    /**
+     * Assert the media type of the response, ignoring parameters such as the charset.
+     * @param type - The expected media type, e.g. 'text/csv'.
+     * @returns The ApiCall instance.
+     */
+    public expectContentType(type: string): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const actual = (res.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+            if (actual !== type.toLowerCase()) {
+                throw Error(`Expected Content-Type '${type}', got '${res.headers['content-type'] ?? ''}'`);
+            }
+        }));
+    }
+
+    /**
+     * Assert the size of a download streamed with `downloadTo`. For a resumed download it is the size of the whole file.
+     * @param bytes - The expected size in bytes.
+     * @returns The ApiCall instance.
+     */
+    public expectDownloadSize(bytes: number): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const download = downloadResultOf(res);
+            if (download.totalBytes !== bytes) {
+                throw Error(`Expected a download of ${bytes} bytes, got ${download.totalBytes} bytes`);
+            }
+        }));
+    }
+
+    /**
+     * Assert the SHA-256 checksum of a download streamed with `downloadTo`. For a resumed download it is the checksum of the whole file.
+     * @param checksum - The expected checksum, in hex.
+     * @returns The ApiCall instance.
+     */
+    public expectDownloadSha256(checksum: string): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const download = downloadResultOf(res);
+            if (download.sha256 !== checksum.toLowerCase()) {
+                throw Error(`Expected a download with SHA-256 ${checksum.toLowerCase()}, got ${download.sha256}`);
+            }
+        }));
+    }
+
+    public expectField(fieldName: string, value: string): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect(fieldName, value));
+    }
+
+    /**
+     * Saves a value of the response body in the context, for use as `{{name}}` in later calls.
+     * @param path - JSONPath of the value, e.g. '$._id'.
+     * @param name - The variable name.
+     * @param options - `all` saves every match as an array instead of the first match.
+     * @returns The ApiCall instance.
+     */
+    public extract(path: string, name: string, options: { all?: boolean } = {}): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const matches = queryJsonPath(res.body, path);
+            if (!options.all && matches.length === 0) {
+                throw Error(`JSONPath '${path}' matched nothing in the response body; cannot set '${name}'.`);
+            }
+            this._context.set(name, options.all ? matches : matches[0]);
+        }));
+    }
+
+    /**
+     * Saves a response header in the context, for use as `{{name}}` in later calls.
+     * @param headerName - The name of the header, e.g. 'ETag'.
+     * @param name - The variable name.
+     * @returns The ApiCall instance.
+     */
+    public extractHeader(headerName: string, name: string): ApiCall<TBody> {
+        return this.addAssertion(req => req.expect((res: Response) => {
+            const value = res.get(headerName);
+            if (value === undefined) {
+                throw Error(`Response has no '${headerName}' header; cannot set '${name}'.`);
+            }
+            this._context.set(name, value);
+        }));
+    }
+
+    /**
+     * Gets the timing breakdown of the call; of the last attempt if the call was retried or polled.
+     * @returns The timings in milliseconds.
+     */
+    public getTimings(): Timings {
+        if (this._timings) {
+            return this._timings;
+        }
+        else {
+            throw Error(`Timings are undefined. Make sure to call the API call method first.`);
+        }
+    }
+
+    /**
+     * Gets the context shared with other calls.
+     * @returns The context of the API call.
+     */
+    public getContext(): ApiContext {
+        return this._context;
+    }
+
     /**
      * Gets the response text of the API call.
      * @returns The response text.
@@ -737,7 +1345,7 @@ export class ApiCall {
      * Gets the response body of the API call.
      * @returns The response body.
      */
-    public getResponseBody(): any {
+    public getResponseBody(): TBody {
         if (this.res) {
             return this.res.body;
         }
@@ -808,11 +1416,11 @@ export class ApiCall {
     }
 
     /**
-     * Gets the raw request object of the API call.
+     * Gets the raw request object of the API call: the request sent last, or an unsent one built from the spec.
      * @returns The raw request object.
      */
     public getRawRequest(): Request {
-        return this.req;
+        return this.inspectRequest();
     }
 
     /**
@@ -881,21 +1489,20 @@ export class ApiCall {
     }
 
     /**
-     * Pipe the API response to a file.
+     * Writes the buffered API response body to a file. Use `downloadTo` for large bodies, so they are not buffered.
      * @param filePath file where response to be written.
+     * @returns A promise that resolves when the file is written.
      */
-    public pipeResponseToFile(filePath: string): void {
+    public async pipeResponseToFile(filePath: string): Promise<void> {
         if (this.res) {
-            try {
-                this.res.pipe(fs.createWriteStream(filePath));
-            } catch (err) {
-                throw err;
-            }
+            const body: Uint8Array | string = Buffer.isBuffer(this.res.body)
+                ? this.res.body as Uint8Array
+                : this.res.text ?? JSON.stringify(this.res.body);
+            await fs.promises.writeFile(filePath, body);
         }
         else {
             throw Error(`Response is undefined. Make sure to call the API call method first.`);
         }
-
     }
 
     /**
@@ -904,7 +1511,7 @@ export class ApiCall {
      * @retrun API Response
      */
     public end(callback?: (err: any, res: Response) => void): void {
-        this.req.end(callback);
+        this.send().then(res => callback?.(null, res), err => callback?.(err, err.response));
     }
 
     /**
@@ -916,12 +1523,76 @@ export class ApiCall {
     public async done(
         onfulfilled?: ((value: Response) => any) | null,
         onrejected?: ((reason: any) => any) | null
-    ): Promise<Response | undefined> {
-        try {
-            this.res = await this.req.then(onfulfilled, onrejected);
-        } catch (err) {
-            throw err;
+    ): Promise<TypedResponse<TBody>> {
+        const res = await this.send().then(onfulfilled, onrejected);
+        this.res = res;
+        return res;
+    }
+
+    /**
+     * Sends the request again until the response satisfies the predicate, for APIs where a write
+     * becomes visible only after a while. Responses that don't satisfy it and connection errors are retried,
+     * and each attempt is cut off when the timeout runs out.
+     * The `expect…` assertions are checked once, on the response that satisfies the predicate.
+     * @param predicate - The condition on the response, e.g. res => res.body.status === 'done'.
+     * @param options - The interval, timeout and backoff of the polling.
+     * @returns The response that satisfies the predicate.
+     */
+    public async pollUntil(predicate: (res: Response) => boolean, options: PollOptions = {}): Promise<TypedResponse<TBody>> {
+        const { interval = 500, timeout = 10000, backoff = 1 } = options;
+        const deadline = Date.now() + timeout;
+        const history: string[] = [];
+        let wait = interval;
+        for (let attempt = 1; ; attempt++) {
+            let satisfied = false;
+            try {
+                this.res = await this.send({
+                    accept: res => {
+                        try {
+                            satisfied = predicate(res);
+                        } catch (err: any) {
+                            throw Error(`${describeResponse(res)}, ${err.message}`);
+                        }
+                        if (!satisfied) {
+                            throw Error(describeResponse(res));
+                        }
+                    },
+                    deadline
+                });
+                return this.res;
+            } catch (err: any) {
+                if (satisfied) {
+                    throw err;
+                }
+                history.push(`  #${attempt}: ${err.message}`);
+            }
+            if (Date.now() + wait > deadline) {
+                throw Error(`${this._spec.method} ${this._spec.path} did not satisfy the condition within ${timeout} ms:\n${history.join('\n')}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, wait));
+            wait *= backoff;
         }
-        return this.res
     }
 }
+
+/**
+ * Gets the result of a download streamed with `downloadTo` from the response.
+ */
+function downloadResultOf(res: Response): DownloadResult {
+    if (!res.body || typeof res.body.sha256 !== 'string') {
+        throw Error(`The response was not downloaded with downloadTo (status ${res.status})`);
+    }
+    return res.body;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Describes a response in one line, for failure messages.
+ */
+function describeResponse(res: Response): string {
+    const body = res.text || (res.body && Object.keys(res.body).length > 0 ? JSON.stringify(res.body) : '');
+    return `${res.status}${body ? ` ${body.length > 120 ? `${body.slice(0, 117)}...` : body}` : ''}`;
+}
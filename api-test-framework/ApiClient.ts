@@ -0,0 +1,109 @@
+import supertest, { Test } from "supertest";
+import TestAgent from "supertest/lib/agent";
+import { Server } from "net";
+import { ApiCall, ApiMethods, ApiTarget } from "./ApiCall";
+import { ApiContext } from "./ApiContext";
+import { AuthProvider } from "./Auth";
+import { OpenApiContract } from "./OpenApiContract";
+import { toServer } from "./AppServer";
+import { resolvePath } from "../utils/utils";
+
+/**
+ * Creates API calls against a common base URL, Express app or http.Server.
+ * All calls made through one client share a single agent, so cookies set by one call
+ * (e.g. a login) are sent with the calls that follow it, and variables extracted by one call
+ * can be used as `{{name}}` placeholders by the calls that follow it.
+ */
+export class ApiClient {
+
+    private readonly _target: ApiTarget;
+    private readonly _endpoint: string | Server;
+    private readonly _agent: TestAgent<Test>;
+    private readonly _context = new ApiContext();
+    private _authProvider?: AuthProvider;
+    private _contract?: OpenApiContract;
+
+    /**
+     * @param target - The base URL of the API, e.g. 'https://reqres.in/api', or an Express app / http.Server.
+     * @param defaultHeaders - Headers sent with every call made by this client.
+     */
+    constructor(target: ApiTarget, defaultHeaders: Record<string, string> = {}) {
+        this._target = typeof target === 'string' ? target.replace(/\/+$/, '') : target;
+        this._endpoint = toServer(this._target);
+        this._agent = supertest.agent(this._endpoint);
+        this._agent.set(defaultHeaders);
+    }
+
+    /**
+     * Sets a header sent with every call made by this client.
+     * @param key - The header key.
+     * @param value - The header value.
+     * @returns The ApiClient instance.
+     */
+    public setDefaultHeader(key: string, value: string): ApiClient {
+        this._agent.set(key, value);
+        return this;
+    }
+
+    /**
+     * Sets an authentication provider for every call made by this client. Providers that cache
+     * a token, such as `OAuth2Auth`, share it between the calls.
+     * @param provider - The authentication provider.
+     * @returns The ApiClient instance.
+     */
+    public setAuthProvider(provider: AuthProvider): ApiClient {
+        this._authProvider = provider;
+        return this;
+    }
+
+    /**
+     * Sets an OpenAPI contract that every call made by this client is checked against, as with
+     * `ApiCall.expectContract`. Negative tests leave their calls out with `skipContract`.
+     * @param contract - The OpenAPI contract, e.g. await OpenApiContract.load(app).
+     * @returns The ApiClient instance.
+     */
+    public setContract(contract: OpenApiContract): ApiClient {
+        this._contract = contract;
+        return this;
+    }
+
+    /**
+     * Creates an API call for the given path.
+     * @param method - The HTTP method of the call.
+     * @param path - The path template, e.g. '/users/:id'.
+     * @param params - The values for the path placeholders, URL-encoded before use.
+     * @returns The new ApiCall instance.
+     */
+    public call(method: ApiMethods, path: string, params: Record<string, string | number | boolean> = {}): ApiCall {
+        const resolvedPath = resolvePath(path, params);
+        const call = new ApiCall(this._endpoint, method, resolvedPath.startsWith('/') ? resolvedPath : `/${resolvedPath}`, this._agent, this._context);
+        if (this._contract) {
+            call.expectContract(this._contract);
+        }
+        return this._authProvider ? call.setAuthProvider(this._authProvider) : call;
+    }
+
+    /**
+     * Gets the target of the client.
+     * @returns The base URL, Express app or http.Server.
+     */
+    public getTarget(): ApiTarget {
+        return this._target;
+    }
+
+    /**
+     * Gets the context shared by all calls of the client.
+     * @returns The shared context.
+     */
+    public getContext(): ApiContext {
+        return this._context;
+    }
+
+    /**
+     * Gets the agent shared by all calls of the client.
+     * @returns The shared agent.
+     */
+    public getAgent(): TestAgent<Test> {
+        return this._agent;
+    }
+}
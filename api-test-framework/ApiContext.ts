@@ -0,0 +1,85 @@
+/**
+ * Matches a `{{name}}` placeholder.
+ */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_$][\w$.-]*)\s*\}\}/g;
+
+/**
+ * Variables shared by chained API calls, e.g. the id of a created user used by the calls that follow.
+ * Values are saved with `ApiCall.extract` or `set`, and used through `{{name}}` placeholders.
+ */
+export class ApiContext {
+
+    private readonly _values = new Map<string, unknown>();
+
+    /**
+     * Sets a variable.
+     * @param name - The variable name.
+     * @param value - The variable value.
+     * @returns The ApiContext instance.
+     */
+    public set(name: string, value: unknown): ApiContext {
+        this._values.set(name, value);
+        return this;
+    }
+
+    /**
+     * Gets a variable.
+     * @param name - The variable name.
+     * @returns The variable value.
+     */
+    public get<T = unknown>(name: string): T {
+        if (!this._values.has(name)) {
+            throw Error(`Variable '${name}' is not defined in the context.`);
+        }
+        return this._values.get(name) as T;
+    }
+
+    /**
+     * Checks if a variable is set.
+     * @param name - The variable name.
+     * @returns True if the variable is set, false otherwise.
+     */
+    public has(name: string): boolean {
+        return this._values.has(name);
+    }
+
+    /**
+     * Removes all variables.
+     * @returns The ApiContext instance.
+     */
+    public clear(): ApiContext {
+        this._values.clear();
+        return this;
+    }
+
+    /**
+     * Replaces the `{{name}}` placeholders in a value with the context variables.
+     * Strings, arrays and plain objects are processed recursively. A string that is only a placeholder
+     * is replaced by the variable itself, so numbers and objects keep their type.
+     * @param value - The value with placeholders.
+     * @param encode - Optional encoder for the variables, e.g. encodeURIComponent for paths.
+     * Encoded variables are always inserted as strings.
+     * @returns The value with the placeholders replaced.
+     */
+    public interpolate<T>(value: T, encode?: (value: string) => string): T {
+        if (typeof value === 'string') {
+            const whole = /^\{\{\s*([A-Za-z_$][\w$.-]*)\s*\}\}$/.exec(value);
+            if (whole && !encode) {
+                return this.get<T>(whole[1]);
+            }
+            return value.replace(PLACEHOLDER, (_match, name: string) => {
+                const variable = String(this.get(name));
+                return encode ? encode(variable) : variable;
+            }) as T;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.interpolate(item, encode)) as T;
+        }
+        if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.interpolate(item, encode)])
+            ) as T;
+        }
+        return value;
+    }
+}
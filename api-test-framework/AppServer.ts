@@ -0,0 +1,64 @@
+import http from 'http';
+import { Server } from 'net';
+import { ApiTarget } from "./ApiCall";
+
+/**
+ * The http.Servers wrapping Express apps, by app, so that all calls to an app share one server.
+ */
+const servers = new WeakMap<Function, Server>();
+
+/**
+ * How many calls are in flight on each server bound by `bindServer`.
+ */
+const inFlight = new Map<Server, number>();
+
+/**
+ * Wraps an Express app in an http.Server, the same one for every call to the app.
+ * URLs and servers are returned as they are.
+ * @param target - The base URL, Express app or http.Server.
+ * @returns The base URL or http.Server.
+ */
+export function toServer(target: ApiTarget): string | Server {
+    if (typeof target !== 'function') {
+        return target;
+    }
+    let server = servers.get(target);
+    if (!server) {
+        server = http.createServer(target as http.RequestListener);
+        servers.set(target, server);
+    }
+    return server;
+}
+
+/**
+ * Binds a server that is not listening to an ephemeral port while a call to it is in flight.
+ * Calls sent at the same time share the port, and the server is closed once the last of them completes.
+ * Servers that were already listening, and URLs, are left alone.
+ * @param target - The base URL or http.Server of the call.
+ * @returns A function to call once the call has completed.
+ */
+export function bindServer(target: string | Server): () => void {
+    if (typeof target === 'string' || (target.listening && !inFlight.has(target))) {
+        return () => undefined;
+    }
+    const server = target;
+    if (!inFlight.has(server)) {
+        // Bound synchronously, as supertest reads the port right away.
+        server.listen(0);
+    }
+    inFlight.set(server, (inFlight.get(server) ?? 0) + 1);
+    let released = false;
+    return () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        const count = inFlight.get(server)! - 1;
+        if (count > 0) {
+            inFlight.set(server, count);
+        } else {
+            inFlight.delete(server);
+            server.close();
+        }
+    };
+}
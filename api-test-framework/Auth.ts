@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import superagent, { Request, Response } from "superagent";
+import { readRequest } from "./Curl";
+
+/**
+ * Adds credentials to requests. A provider is attached to a call with `setAuthProvider`,
+ * or to all calls of a client with `ApiClient.setAuthProvider`.
+ */
+export interface AuthProvider {
+    /**
+     * Adds the credentials to a request, before it is sent and before each resend.
+     * @param req - The request.
+     */
+    authorize(req: Request): Promise<void> | void;
+    /**
+     * Decides whether a request is sent again after a response, e.g. to answer an authentication challenge.
+     * @param req - The request.
+     * @param res - The response.
+     * @param resent - Whether the call was already sent again to answer a challenge.
+     * @returns True to authorize the request again and resend it.
+     */
+    onResponse?(req: Request, res: Response, resent: boolean): boolean;
+}
+
+/**
+ * Options of `OAuth2Auth`.
+ */
+export type OAuth2Options = {
+    /** The URL of the token endpoint. */
+    tokenUrl: string;
+    clientId: string;
+    clientSecret?: string;
+    scope?: string;
+    /** How the client authenticates at the token endpoint: a Basic header or the form body. Defaults to 'basic'. */
+    clientAuthentication?: 'basic' | 'body';
+    /** How long before its expiry a token is refreshed, in milliseconds. Defaults to 30000. */
+    refreshMarginMs?: number;
+} & (
+    | { grant: 'client_credentials' }
+    | { grant: 'password', username: string, password: string }
+);
+
+/**
+ * An access token issued by a token endpoint.
+ */
+export interface AccessToken {
+    accessToken: string;
+    refreshToken?: string;
+    /** When the token expires, in milliseconds since the epoch, or undefined if the token doesn't expire. */
+    expiresAt?: number;
+}
+
+/**
+ * OAuth2 bearer authentication with the client credentials or password grant.
+ * The token is cached and shared by all calls using the provider. It is refreshed before it expires,
+ * with its refresh token if it has one, and once more when a call gets a 401 response.
+ * e.g. client.setAuthProvider(new OAuth2Auth({ grant: 'client_credentials', tokenUrl, clientId, clientSecret }))
+ */
+export class OAuth2Auth implements AuthProvider {
+
+    private readonly _options: OAuth2Options;
+    private _token?: AccessToken;
+    private _pending?: Promise<AccessToken>;
+
+    /**
+     * @param options - The token endpoint, client and grant.
+     */
+    constructor(options: OAuth2Options) {
+        this._options = options;
+    }
+
+    public async authorize(req: Request): Promise<void> {
+        req.set('Authorization', `Bearer ${(await this.getToken()).accessToken}`);
+    }
+
+    public onResponse(req: Request, res: Response, resent: boolean): boolean {
+        if (res.status !== 401 || resent) {
+            return false;
+        }
+        this.invalidate();
+        return true;
+    }
+
+    /**
+     * Gets the cached token, requesting a new one if there is none or it is about to expire.
+     * @returns The access token.
+     */
+    public getToken(): Promise<AccessToken> {
+        const margin = this._options.refreshMarginMs ?? 30000;
+        if (this._token && (this._token.expiresAt === undefined || this._token.expiresAt - margin > Date.now())) {
+            return Promise.resolve(this._token);
+        }
+        // Calls sent at the same time share one token request.
+        this._pending ??= this.requestToken(this._token?.refreshToken).finally(() => this._pending = undefined);
+        return this._pending;
+    }
+
+    /**
+     * Drops the cached access token, so that the next call gets a new one. The refresh token is kept.
+     */
+    public invalidate(): void {
+        if (this._token) {
+            this._token = { ...this._token, expiresAt: 0 };
+        }
+    }
+
+    private async requestToken(refreshToken?: string): Promise<AccessToken> {
+        const options = this._options;
+        const form: Record<string, string> = refreshToken
+            ? { grant_type: 'refresh_token', refresh_token: refreshToken }
+            : options.grant === 'password'
+                ? { grant_type: 'password', username: options.username, password: options.password }
+                : { grant_type: 'client_credentials' };
+        if (options.scope) {
+            form.scope = options.scope;
+        }
+        const req = superagent.post(options.tokenUrl).type('form').accept('json').ok(() => true);
+        if ((options.clientAuthentication ?? 'basic') === 'basic') {
+            req.auth(options.clientId, options.clientSecret ?? '');
+        } else {
+            form.client_id = options.clientId;
+            if (options.clientSecret !== undefined) {
+                form.client_secret = options.clientSecret;
+            }
+        }
+        const res = await req.send(form);
+        if (res.status !== 200 || typeof res.body?.access_token !== 'string') {
+            if (refreshToken) {
+                // The refresh token was rejected or expired; fall back to the grant.
+                return this.requestToken();
+            }
+            throw Error(`Token request to ${options.tokenUrl} failed with status ${res.status}: ${res.text}`);
+        }
+        this._token = {
+            accessToken: res.body.access_token,
+            refreshToken: res.body.refresh_token ?? refreshToken,
+            expiresAt: typeof res.body.expires_in === 'number' ? Date.now() + res.body.expires_in * 1000 : undefined
+        };
+        return this._token;
+    }
+}
+
+/**
+ * A Digest challenge from a WWW-Authenticate header.
+ */
+interface DigestChallenge {
+    realm: string;
+    nonce: string;
+    opaque?: string;
+    algorithm: string;
+    qop?: string;
+    /** How many requests were sent with the nonce. */
+    nc: number;
+}
+
+/**
+ * HTTP Digest authentication (RFC 7616): the request is sent, the server's challenge is answered,
+ * and the request is sent again. Later calls answer the cached challenge right away, until the server
+ * marks its nonce as stale. MD5, SHA-256 and their '-sess' variants and the 'auth' and 'auth-int' qop are supported.
+ * e.g. apiCall.setAuthProvider(new DigestAuth('user', 'password'))
+ */
+export class DigestAuth implements AuthProvider {
+
+    private readonly _username: string;
+    private readonly _password: string;
+    private _challenge?: DigestChallenge;
+
+    /**
+     * @param username - The user name.
+     * @param password - The password.
+     */
+    constructor(username: string, password: string) {
+        this._username = username;
+        this._password = password;
+    }
+
+    public authorize(req: Request): void {
+        const challenge = this._challenge;
+        if (!challenge) {
+            return;
+        }
+        const request = readRequest(req);
+        const url = new URL(request.url);
+        const qop = challenge.qop?.split(',').map(value => value.trim()).find(value => value === 'auth' || value === 'auth-int');
+        challenge.nc++;
+        const nc = challenge.nc.toString(16).padStart(8, '0');
+        const cnonce = crypto.randomBytes(16).toString('hex');
+        const response = digestResponse({
+            algorithm: challenge.algorithm,
+            username: this._username,
+            password: this._password,
+            realm: challenge.realm,
+            method: request.method,
+            uri: `${url.pathname}${url.search}`,
+            nonce: challenge.nonce,
+            nc,
+            cnonce,
+            qop,
+            body: request.body ?? ''
+        });
+        const params = [
+            `username="${this._username}"`,
+            `realm="${challenge.realm}"`,
+            `uri="${url.pathname}${url.search}"`,
+            `algorithm=${challenge.algorithm}`,
+            `nonce="${challenge.nonce}"`,
+            ...(qop ? [`nc=${nc}`, `cnonce="${cnonce}"`, `qop=${qop}`] : []),
+            `response="${response}"`,
+            ...(challenge.opaque !== undefined ? [`opaque="${challenge.opaque}"`] : [])
+        ];
+        req.set('Authorization', `Digest ${params.join(', ')}`);
+    }
+
+    public onResponse(req: Request, res: Response, resent: boolean): boolean {
+        const challenge = res.status === 401 ? parseDigestChallenge(res.headers['www-authenticate'] ?? '') : undefined;
+        if (!challenge) {
+            return false;
+        }
+        this._challenge = challenge;
+        // A stale nonce is answered again, a wrong password is not.
+        return !resent || challenge.stale;
+    }
+}
+
+/**
+ * Parses the Digest challenges of a WWW-Authenticate header and picks the strongest supported one.
+ */
+function parseDigestChallenge(header: string): (DigestChallenge & { stale: boolean }) | undefined {
+    const challenges = header.split(/(?=\bDigest\s)/i)
+        .filter(part => /^Digest\s/i.test(part))
+        .map(part => {
+            const params: Record<string, string> = {};
+            for (const [, key, quoted, token] of part.slice(7).matchAll(/([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,\s]*))/g)) {
+                params[key.toLowerCase()] ??= quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : token;
+            }
+            return params;
+        })
+        .filter(params => params.realm !== undefined && params.nonce !== undefined
+            && DIGEST_ALGORITHMS.includes((params.algorithm ?? 'MD5').toUpperCase()));
+    challenges.sort((a, b) => DIGEST_ALGORITHMS.indexOf((b.algorithm ?? 'MD5').toUpperCase())
+        - DIGEST_ALGORITHMS.indexOf((a.algorithm ?? 'MD5').toUpperCase()));
+    const params = challenges[0];
+    return params && {
+        realm: params.realm,
+        nonce: params.nonce,
+        opaque: params.opaque,
+        algorithm: (params.algorithm ?? 'MD5').toUpperCase(),
+        qop: params.qop,
+        nc: 0,
+        stale: params.stale?.toLowerCase() === 'true'
+    };
+}
+
+/**
+ * The supported Digest algorithms, weakest first.
+ */
+const DIGEST_ALGORITHMS = ['MD5', 'MD5-SESS', 'SHA-256', 'SHA-256-SESS'];
+
+/**
+ * Computes the `response` of a Digest authorization (RFC 7616, section 3.4.1).
+ * @returns The response as a hex string.
+ */
+export function digestResponse(params: {
+    algorithm: string, username: string, password: string, realm: string, method: string, uri: string,
+    nonce: string, nc: string, cnonce: string, qop?: string, body?: string
+}): string {
+    const algorithm = params.algorithm.toUpperCase();
+    const hash = (value: string) => crypto.createHash(algorithm.startsWith('SHA-256') ? 'sha256' : 'md5').update(value).digest('hex');
+    let ha1 = hash(`${params.username}:${params.realm}:${params.password}`);
+    if (algorithm.endsWith('-SESS')) {
+        ha1 = hash(`${ha1}:${params.nonce}:${params.cnonce}`);
+    }
+    const ha2 = hash(params.qop === 'auth-int'
+        ? `${params.method}:${params.uri}:${hash(params.body ?? '')}`
+        : `${params.method}:${params.uri}`);
+    return params.qop
+        ? hash(`${ha1}:${params.nonce}:${params.nc}:${params.cnonce}:${params.qop}:${ha2}`)
+        : hash(`${ha1}:${params.nonce}:${ha2}`);
+}
+
+/**
+ * Options of `HmacAuth`.
+ */
+export interface HmacOptions {
+    keyId: string;
+    secret: string;
+    /** The hash algorithm of the signature and the body hash. Defaults to 'sha256'. */
+    algorithm?: 'sha256' | 'sha512';
+    /** The header that carries the Unix timestamp of the signature. Defaults to 'X-Timestamp'. */
+    timestampHeader?: string;
+}
+
+/**
+ * HMAC request signing. Each request gets a timestamp header and an Authorization header
+ * `HMAC-SHA256 keyId="…", signature="…"` signed over its method, path with query, body hash and timestamp,
+ * see `hmacSignature`. Multipart bodies are signed as an empty body.
+ * e.g. client.setAuthProvider(new HmacAuth({ keyId: 'key-1', secret: process.env.HMAC_SECRET! }))
+ */
+export class HmacAuth implements AuthProvider {
+
+    private readonly _options: HmacOptions;
+
+    /**
+     * @param options - The key and algorithm.
+     */
+    constructor(options: HmacOptions) {
+        this._options = options;
+    }
+
+    public authorize(req: Request): void {
+        const { keyId, secret, algorithm = 'sha256', timestampHeader = 'X-Timestamp' } = this._options;
+        const request = readRequest(req);
+        const url = new URL(request.url);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const signature = hmacSignature({
+            method: request.method,
+            path: `${url.pathname}${url.search}`,
+            body: request.body ?? '',
+            timestamp
+        }, secret, algorithm);
+        req.set(timestampHeader, timestamp);
+        req.set('Authorization', `HMAC-${algorithm.toUpperCase()} keyId="${keyId}", signature="${signature}"`);
+    }
+}
+
+/**
+ * Computes the HMAC signature of a request: the base64 HMAC of the lines
+ * METHOD, path with query, hex hash of the body and timestamp.
+ * @param request - The signed parts of the request.
+ * @param secret - The secret key.
+ * @param algorithm - The hash algorithm.
+ * @returns The signature.
+ */
+export function hmacSignature(request: { method: string, path: string, body: string, timestamp: string },
+    secret: string, algorithm: 'sha256' | 'sha512' = 'sha256'): string {
+    const bodyHash = crypto.createHash(algorithm).update(request.body).digest('hex');
+    const payload = [request.method.toUpperCase(), request.path, bodyHash, request.timestamp].join('\n');
+    return crypto.createHmac(algorithm, secret).update(payload).digest('base64');
+}
+
+/**
+ * API key authentication, with the key in a header or a query parameter.
+ * e.g. new ApiKeyAuth(process.env.API_KEY!, { in: 'query', name: 'api_key' })
+ */
+export class ApiKeyAuth implements AuthProvider {
+
+    private readonly _key: string;
+    private readonly _in: 'header' | 'query';
+    private readonly _name: string;
+
+    /**
+     * @param key - The API key.
+     * @param options - Where the key is sent and under which name; by default the 'X-API-Key' header.
+     */
+    constructor(key: string, options: { in?: 'header' | 'query', name?: string } = {}) {
+        this._key = key;
+        this._in = options.in ?? 'header';
+        this._name = options.name ?? (this._in === 'header' ? 'X-API-Key' : 'api_key');
+    }
+
+    public authorize(req: Request): void {
+        if (this._in === 'header') {
+            req.set(this._name, this._key);
+        } else if (!new URL(readRequest(req).url).searchParams.has(this._name)) {
+            // Not when the call sets the parameter itself.
+            req.query({ [this._name]: this._key });
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { JsonSchema, SchemaViolation, validateJsonSchema, formatViolations } from "./JsonSchema";
+
+/**
+ * A runtime check that a response body has the TypeScript type `T`, used with `ApiCall.as`.
+ * Define one with `defineBodyType`, or implement `validate` for another validation library.
+ */
+export interface BodyType<T> {
+    /** The name of the type in failure messages, e.g. 'User'. */
+    readonly name: string;
+    /**
+     * Checks a value.
+     * @param value - The parsed response body.
+     * @returns Every violation found, with a JSON pointer to the offending field; empty when the value is a `T`.
+     */
+    validate(value: unknown): SchemaViolation[];
+    /** Only carries `T`; never set. */
+    readonly __type?: T;
+}
+
+/**
+ * Defines a body type checked against a JSON Schema (draft 2020-12). The schema and `T` must describe
+ * the same shape; build the schema from the model where there is one, e.g. with `schemaFromMongoose`.
+ * e.g. const UserType = defineBodyType<User>('User', schemaFromMongoose(UserSchema));
+ * @param name - The name of the type in failure messages.
+ * @param schema - The JSON Schema of the type.
+ * @returns The body type.
+ */
+export function defineBodyType<T>(name: string, schema: JsonSchema): BodyType<T> {
+    return { name, validate: value => validateJsonSchema(schema, value) };
+}
+
+/**
+ * Defines the body type of an array of another body type, e.g. for list endpoints.
+ * @param type - The body type of the items.
+ * @returns The body type of the array.
+ */
+export function arrayOf<T>(type: BodyType<T>): BodyType<T[]> {
+    return {
+        name: `${type.name}[]`,
+        validate: value => Array.isArray(value)
+            ? value.flatMap((item, index) => type.validate(item).map(v => ({ ...v, pointer: `/${index}${v.pointer}` })))
+            : [{ pointer: '', message: 'must be array' }]
+    };
+}
+
+/**
+ * Checks a value against a body type.
+ * @param type - The body type.
+ * @param value - The value, e.g. a response body.
+ * @returns The value, typed as `T`.
+ * @throws Error naming every field that doesn't match the type.
+ */
+export function assertBodyType<T>(type: BodyType<T>, value: unknown): T {
+    const violations = type.validate(value);
+    if (violations.length > 0) {
+        throw Error(`Response body is not a valid ${type.name}:\n${formatViolations(violations)}`);
+    }
+    return value as T;
+}
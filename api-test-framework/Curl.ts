@@ -0,0 +1,445 @@
+import fs from 'fs';
+import path from 'path';
+import { Request } from "superagent";
+
+/**
+ * A multipart field of a request: a value, or a file given by its path.
+ */
+export interface FormField {
+    name: string;
+    value?: string;
+    /** The path of the file, for file fields. */
+    file?: string;
+    filename?: string;
+    contentType?: string;
+}
+
+/**
+ * A request as sent by curl or by superagent, with the query included in the URL.
+ */
+export interface HttpRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    form: FormField[];
+    /** The user and password of `-u`, e.g. 'user:password'. */
+    user?: string;
+    insecure: boolean;
+    /** How many redirects are followed. */
+    redirects: number;
+    /** The timeout of the whole request, in milliseconds. */
+    timeout?: number;
+}
+
+/**
+ * The state of a superagent request that `readRequest` reads. Besides `method` and `url`,
+ * these fields are superagent's own and are not in its type declarations.
+ */
+interface RequestState {
+    method: string;
+    url: string;
+    qs?: Record<string, unknown>;
+    _query?: string[];
+    header?: Record<string, unknown>;
+    _header?: Record<string, string | undefined>;
+    _data?: unknown;
+    _formData?: FormDataState;
+    _disableTLSCerts?: boolean;
+    _maxRedirects?: number;
+    _timeout?: number;
+}
+
+/**
+ * The parts of a form-data form: the header, the value or file stream, and the line break of each field.
+ */
+interface FormDataState {
+    _streams?: unknown[];
+}
+
+/**
+ * A file stream of a form. Streams are wrapped by combined-stream, which keeps the file stream as its source.
+ */
+interface FileStream {
+    path?: unknown;
+    source?: { path?: unknown };
+}
+
+/**
+ * Options of curl that are accepted and ignored, because they don't change the request.
+ */
+const IGNORED_FLAGS = ['-s', '--silent', '-S', '--show-error', '-v', '--verbose', '-i', '--include', '--compressed',
+    '-g', '--globoff', '--http1.1', '-#', '--progress-bar', '-f', '--fail', '--fail-with-body', '-N', '--no-buffer'];
+
+const IGNORED_OPTIONS = ['-o', '--output', '-w', '--write-out', '--connect-timeout', '--retry', '--retry-delay'];
+
+const SHORT_OPTIONS: Record<string, string> = {
+    X: '--request', H: '--header', d: '--data', F: '--form', u: '--user', b: '--cookie', A: '--user-agent',
+    e: '--referer', m: '--max-time', o: '--output', w: '--write-out'
+};
+
+const SHORT_FLAGS: Record<string, string> = { G: '--get', I: '--head', k: '--insecure', L: '--location' };
+
+/**
+ * Reads what a superagent request will send: method, URL with the query, headers, body and multipart fields.
+ * Bodies given as streams and files given as buffers can't be read; they are shown by their file name.
+ * @param req - The request, sent or not.
+ * @returns The request.
+ */
+export function readRequest(req: Request): HttpRequest {
+    const raw: Request & RequestState = req;
+    const url = new URL(/^https?:\/\//.test(raw.url) ? raw.url : `http://${raw.url}`);
+    // As superagent does when sending: the query strings first, then the query parameters, encoded as by qs.
+    const params = Object.entries(raw.qs ?? {})
+        .flatMap(([key, value]) => [value].flat().map(v => `${encodeQueryComponent(key)}=${encodeQueryComponent(String(v))}`))
+        .join('&');
+    const query = [url.search.slice(1), ...(raw._query ?? []), params].filter(part => part).join('&');
+    const headers: Record<string, string> = {};
+    Object.entries(raw.header ?? {}).forEach(([key, value]) => headers[key] = String(value));
+    return {
+        method: raw.method,
+        url: `${url.origin}${url.pathname}${query ? `?${query}` : ''}`,
+        headers,
+        body: serializeBody(raw._data, raw._header?.['content-type']),
+        form: readFormData(raw._formData),
+        insecure: Boolean(raw._disableTLSCerts),
+        redirects: raw._maxRedirects ?? 0,
+        ...(raw._timeout ? { timeout: raw._timeout } : {})
+    };
+}
+
+function encodeQueryComponent(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function serializeBody(data: unknown, contentType: string | undefined): string | undefined {
+    if (data === undefined || data === null) {
+        return undefined;
+    }
+    if (typeof data === 'string') {
+        return data;
+    }
+    if (Buffer.isBuffer(data)) {
+        return data.toString();
+    }
+    if (/x-www-form-urlencoded/.test(contentType ?? '')) {
+        return new URLSearchParams(data as Record<string, string>).toString();
+    }
+    return JSON.stringify(data);
+}
+
+/**
+ * Reads the fields of a form-data instance, which keeps each field as a header, a value and a footer.
+ */
+function readFormData(formData: FormDataState | undefined): FormField[] {
+    const fields: FormField[] = [];
+    const streams: unknown[] = formData?._streams ?? [];
+    for (let i = 0; i + 1 < streams.length; i += 3) {
+        const header = String(streams[i]);
+        const name = /name="([^"]*)"/.exec(header)?.[1] ?? '';
+        const filename = /filename="([^"]*)"/.exec(header)?.[1];
+        const contentType = /Content-Type: ([^\r\n]+)/i.exec(header)?.[1];
+        const value = streams[i + 1];
+        if (filename === undefined) {
+            fields.push({ name, value: String(value) });
+        } else {
+            const stream = value as FileStream | undefined;
+            const file = stream?.source?.path ?? stream?.path ?? filename;
+            fields.push({ name, file: String(file), filename, ...(contentType ? { contentType } : {}) });
+        }
+    }
+    return fields;
+}
+
+/**
+ * Formats a request as a curl command, one option per line.
+ * @param request - The request.
+ * @returns The command.
+ */
+export function formatCurl(request: HttpRequest): string {
+    const method = request.method.toUpperCase();
+    const parts = [`curl ${quote(request.url)}`];
+    if (method === 'HEAD') {
+        parts.push('--head');
+    } else if (method !== 'GET' || request.body !== undefined || request.form.length > 0) {
+        parts.push(`-X ${method}`);
+    }
+    Object.entries(request.headers)
+        // curl sets the multipart content type itself, with its own boundary.
+        .filter(([key]) => !(request.form.length > 0 && key.toLowerCase() === 'content-type'))
+        .forEach(([key, value]) => parts.push(`-H ${quote(`${key}: ${value}`)}`));
+    if (request.user !== undefined) {
+        parts.push(`-u ${quote(request.user)}`);
+    }
+    if (request.body !== undefined) {
+        parts.push(`--data-raw ${quote(request.body)}`);
+    }
+    request.form.forEach(field => {
+        if (field.file === undefined) {
+            parts.push(`--form-string ${quote(`${field.name}=${field.value ?? ''}`)}`);
+            return;
+        }
+        const filename = field.filename && field.filename !== path.basename(field.file) ? `;filename=${field.filename}` : '';
+        parts.push(`-F ${quote(`${field.name}=@${field.file}${filename}${field.contentType ? `;type=${field.contentType}` : ''}`)}`);
+    });
+    if (request.insecure) {
+        parts.push('--insecure');
+    }
+    if (request.redirects > 0) {
+        parts.push(`--location --max-redirs ${request.redirects}`);
+    }
+    if (request.timeout !== undefined) {
+        parts.push(`--max-time ${request.timeout / 1000}`);
+    }
+    return parts.join(' \\\n  ');
+}
+
+/**
+ * Quotes a value for a POSIX shell.
+ */
+function quote(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Parses a curl command, e.g. one copied from the browser devtools. Options that don't change the request,
+ * such as `-s` or `--compressed`, are ignored; other options curl has but the framework can't reproduce fail.
+ * @param command - The command, which can span lines ending with a backslash.
+ * @returns The request.
+ */
+export function parseCurl(command: string): HttpRequest {
+    const tokens = tokenize(command);
+    if (tokens[0] !== 'curl') {
+        throw Error(`Not a curl command: '${command.trim().slice(0, 40)}'.`);
+    }
+    const args = expandShortOptions(tokens.slice(1));
+    const request: HttpRequest = { method: '', url: '', headers: {}, form: [], insecure: false, redirects: 0 };
+    const data: string[] = [];
+    let get = false;
+    let location = false;
+    let maxRedirects = 50;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const next = (): string => {
+            if (i + 1 >= args.length) {
+                throw Error(`The curl option '${arg}' needs a value.`);
+            }
+            return args[++i];
+        };
+        if (!arg.startsWith('-') || arg === '-') {
+            request.url = arg;
+            continue;
+        }
+        switch (arg) {
+            case '--url':
+                request.url = next();
+                break;
+            case '--request':
+                request.method = next().toUpperCase();
+                break;
+            case '--header': {
+                const header = next();
+                const separator = header.indexOf(':');
+                if (separator > 0) {
+                    request.headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+                }
+                break;
+            }
+            case '--data':
+            case '--data-ascii':
+            case '--data-binary':
+            case '--data-raw':
+            case '--json': {
+                const value = next();
+                if (arg !== '--data-raw' && value.startsWith('@')) {
+                    const content = fs.readFileSync(value.slice(1), 'utf8');
+                    data.push(arg === '--data-binary' || arg === '--json' ? content : content.replace(/[\r\n]/g, ''));
+                } else {
+                    data.push(value);
+                }
+                if (arg === '--json') {
+                    request.headers['Content-Type'] ??= 'application/json';
+                    request.headers['Accept'] ??= 'application/json';
+                }
+                break;
+            }
+            case '--data-urlencode': {
+                const value = next();
+                const separator = value.indexOf('=');
+                data.push(separator >= 0
+                    ? `${value.slice(0, separator)}${separator > 0 ? '=' : ''}${encodeURIComponent(value.slice(separator + 1))}`
+                    : encodeURIComponent(value));
+                break;
+            }
+            case '--form':
+                request.form.push(parseFormField(next(), true));
+                break;
+            case '--form-string':
+                request.form.push(parseFormField(next(), false));
+                break;
+            case '--user':
+                request.user = next();
+                break;
+            case '--cookie': {
+                const cookie = next();
+                if (!cookie.includes('=')) {
+                    throw Error(`Reading cookies from a file ('-b ${cookie}') is not supported.`);
+                }
+                request.headers['Cookie'] = cookie;
+                break;
+            }
+            case '--user-agent':
+                request.headers['User-Agent'] = next();
+                break;
+            case '--referer':
+                request.headers['Referer'] = next();
+                break;
+            case '--get':
+                get = true;
+                break;
+            case '--head':
+                request.method = 'HEAD';
+                break;
+            case '--insecure':
+                request.insecure = true;
+                break;
+            case '--location':
+                location = true;
+                break;
+            case '--max-redirs':
+                maxRedirects = Number(next());
+                break;
+            case '--max-time':
+                request.timeout = Number(next()) * 1000;
+                break;
+            default:
+                if (IGNORED_OPTIONS.includes(arg)) {
+                    next();
+                } else if (!IGNORED_FLAGS.includes(arg)) {
+                    throw Error(`The curl option '${arg}' is not supported.`);
+                }
+        }
+    }
+    if (!request.url) {
+        throw Error('The curl command has no URL.');
+    }
+    if (!/^https?:\/\//i.test(request.url)) {
+        request.url = `http://${request.url}`;
+    }
+    if (get) {
+        request.url += data.length > 0 ? `${request.url.includes('?') ? '&' : '?'}${data.join('&')}` : '';
+    } else if (data.length > 0) {
+        request.body = data.join('&');
+        if (!Object.keys(request.headers).some(key => key.toLowerCase() === 'content-type')) {
+            request.headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        }
+    }
+    request.method ||= get ? 'GET' : request.body !== undefined || request.form.length > 0 ? 'POST' : 'GET';
+    request.redirects = location ? maxRedirects : 0;
+    return request;
+}
+
+/**
+ * Parses the value of `-F`: 'name=value', 'name=@file;type=…;filename=…' or 'name=<file' to read the value from a file.
+ */
+function parseFormField(spec: string, allowFiles: boolean): FormField {
+    const separator = spec.indexOf('=');
+    if (separator < 0) {
+        throw Error(`Invalid curl form field '${spec}'. Use 'name=value' or 'name=@file'.`);
+    }
+    const name = spec.slice(0, separator);
+    const value = spec.slice(separator + 1);
+    if (!allowFiles || !/^[@<]/.test(value)) {
+        return { name, value };
+    }
+    const [file, ...params] = value.slice(1).split(';');
+    const param = (key: string) => params.find(p => p.startsWith(`${key}=`))?.slice(key.length + 1);
+    if (value.startsWith('<')) {
+        return { name, value: fs.readFileSync(file, 'utf8') };
+    }
+    const filename = param('filename');
+    const contentType = param('type');
+    return { name, file, ...(filename ? { filename } : {}), ...(contentType ? { contentType } : {}) };
+}
+
+/**
+ * Splits combined short options, e.g. '-sSL' or '-XPOST', into long options and their values.
+ */
+function expandShortOptions(tokens: string[]): string[] {
+    const args: string[] = [];
+    tokens.forEach(token => {
+        if (!/^-[^-]/.test(token)) {
+            args.push(token);
+            return;
+        }
+        for (let j = 1; j < token.length; j++) {
+            const option = SHORT_OPTIONS[token[j]];
+            if (option) {
+                args.push(option);
+                if (j + 1 < token.length) {
+                    args.push(token.slice(j + 1));
+                }
+                return;
+            }
+            args.push(SHORT_FLAGS[token[j]] ?? `-${token[j]}`);
+        }
+    });
+    return args;
+}
+
+/**
+ * Splits a command into words as a POSIX shell does: single quotes, double quotes, $'…' quotes,
+ * backslash escapes and line continuations.
+ */
+function tokenize(command: string): string[] {
+    const tokens: string[] = [];
+    let current: string | undefined;
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"', '0': '\0' };
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+        if (/\s/.test(char)) {
+            if (current !== undefined) {
+                tokens.push(current);
+                current = undefined;
+            }
+        } else if (char === '\\') {
+            const escaped = command[++i];
+            if (escaped !== undefined && escaped !== '\n' && escaped !== '\r') {
+                current = (current ?? '') + escaped;
+            } else if (escaped === '\r' && command[i + 1] === '\n') {
+                i++;
+            }
+        } else if (char === "'") {
+            const end = command.indexOf("'", i + 1);
+            if (end < 0) {
+                throw Error('Unterminated single quote in the curl command.');
+            }
+            current = (current ?? '') + command.slice(i + 1, end);
+            i = end;
+        } else if (char === '$' && command[i + 1] === "'") {
+            current = current ?? '';
+            for (i += 2; i < command.length && command[i] !== "'"; i++) {
+                current += command[i] === '\\' ? escapes[command[++i]] ?? `\\${command[i]}` : command[i];
+            }
+        } else if (char === '"') {
+            current = current ?? '';
+            for (i++; i < command.length && command[i] !== '"'; i++) {
+                if (command[i] === '\\' && /["\\$`\n]/.test(command[i + 1] ?? '')) {
+                    i++;
+                    current += command[i] === '\n' ? '' : command[i];
+                } else {
+                    current += command[i];
+                }
+            }
+            if (i >= command.length) {
+                throw Error('Unterminated double quote in the curl command.');
+            }
+        } else {
+            current = (current ?? '') + char;
+        }
+    }
+    if (current !== undefined) {
+        tokens.push(current);
+    }
+    return tokens;
+}
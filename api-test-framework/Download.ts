@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { PassThrough, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Response } from "superagent";
+
+/**
+ * Where a download is written: a file path or a writable stream, which is ended when the download completes.
+ */
+export type DownloadTarget = string | Writable;
+
+/**
+ * Options of a streamed download.
+ */
+export interface DownloadOptions {
+    /**
+     * Continues a partial download: the bytes already in the file are skipped with a `Range`
+     * request and the rest is appended. A server that ignores the range sends the whole body,
+     * which then replaces the file. Only for file targets.
+     */
+    resume?: boolean;
+}
+
+/**
+ * The outcome of a streamed download, available as the response body.
+ */
+export interface DownloadResult {
+    /** The file the body was written to, if the target is a file. */
+    path?: string;
+    /** The bytes received in this response. */
+    bytes: number;
+    /** The size of the complete download, including bytes kept from an earlier attempt when resuming. */
+    totalBytes: number;
+    /** The hex SHA-256 checksum of the complete download. */
+    sha256: string;
+    /** The offset the response started at; 0 unless a download was resumed. */
+    offset: number;
+}
+
+/**
+ * The state of a download, shared by the attempts of a retried request.
+ */
+interface DownloadState {
+    target: DownloadTarget;
+    offset: number;
+    /** Whether bytes went into a stream target, which can't be written again by a retry. */
+    written: boolean;
+}
+
+/**
+ * Prepares a streamed download.
+ * @param target - The file or stream the body is written to.
+ * @param options - Whether to resume a partial download.
+ * @returns The `Range` header to send, if any, and the superagent parser that writes the body to the target.
+ * The parser writes only 2xx bodies and completes once the target has been written; other bodies are
+ * parsed as usual, so failing status assertions show them.
+ */
+export function createDownload(target: DownloadTarget, options: DownloadOptions = {}):
+    { range?: string, parser: (res: Response, callback: (err: Error | null, body: unknown) => void) => void } {
+    if (options.resume && typeof target !== 'string') {
+        throw Error('Only downloads to a file can be resumed.');
+    }
+    const offset = options.resume ? existingSize(target as string) : 0;
+    const state: DownloadState = { target, offset, written: false };
+    return {
+        range: offset > 0 ? `bytes=${offset}-` : undefined,
+        parser: (res, callback) => {
+            // superagent already reads the response, so it's piped on before anything asynchronous happens.
+            const body = res.pipe(new PassThrough());
+            download(res, body, state).then(result => callback(null, result), err => callback(err, undefined));
+        }
+    };
+}
+
+async function download(res: Response, body: PassThrough, state: DownloadState): Promise<unknown> {
+    const status = res.statusCode;
+    if (status === 416 && state.offset > 0 && contentRangeSize(res) === state.offset) {
+        // The file was already complete.
+        body.resume();
+        return summarize(state.target as string, 0, state.offset, await hashFile(state.target as string, state.offset));
+    }
+    if (status < 200 || status >= 300) {
+        return parseErrorBody(res, body);
+    }
+
+    let offset = 0;
+    if (status === 206) {
+        offset = contentRangeStart(res);
+        if (offset !== state.offset) {
+            body.resume();
+            throw Error(`The server sent the range starting at byte ${offset}, but ${state.offset} was requested.`);
+        }
+    }
+    const hash = crypto.createHash('sha256');
+    let bytes = 0;
+    const measure = new Transform({
+        transform(chunk: Uint8Array, _encoding, next) {
+            hash.update(chunk);
+            bytes += chunk.length;
+            next(null, chunk);
+        }
+    });
+
+    if (typeof state.target === 'string') {
+        if (offset > 0) {
+            // A retried attempt may have appended to the file already.
+            await fs.promises.truncate(state.target, offset);
+            await hashFile(state.target, offset, hash);
+        }
+        await pipeline(body, measure, fs.createWriteStream(state.target, { flags: offset > 0 ? 'a' : 'w' }));
+        return summarize(state.target, bytes, offset + bytes, hash.digest('hex'));
+    }
+    if (state.written) {
+        body.resume();
+        throw Error('The download was interrupted after writing to the stream, so it can\'t be retried.');
+    }
+    state.written = true;
+    await pipeline(body, measure, state.target);
+    return summarize(undefined, bytes, bytes, hash.digest('hex'));
+}
+
+function summarize(path: string | undefined, bytes: number, totalBytes: number, sha256: string): DownloadResult {
+    return { ...(path !== undefined ? { path } : {}), bytes, totalBytes, sha256, offset: totalBytes - bytes };
+}
+
+/**
+ * Reads a non-2xx body the way superagent would, as JSON or text.
+ */
+async function parseErrorBody(res: Response, body: PassThrough): Promise<unknown> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of body) {
+        chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (/json/i.test(res.headers['content-type'] ?? '')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+}
+
+/**
+ * Feeds the first bytes of a file into a hash.
+ * @returns The hex digest, if no hash was passed.
+ */
+async function hashFile(file: string, length: number, hash = crypto.createHash('sha256')): Promise<string> {
+    if (length > 0) {
+        for await (const chunk of fs.createReadStream(file, { start: 0, end: length - 1 })) {
+            hash.update(chunk);
+        }
+    }
+    return hash.copy().digest('hex');
+}
+
+function existingSize(file: string): number {
+    try {
+        return fs.statSync(file).size;
+    } catch (err: any) {
+        if (err.code === 'ENOENT') {
+            return 0;
+        }
+        throw err;
+    }
+}
+
+function contentRangeStart(res: Response): number {
+    const match = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(res.headers['content-range'] ?? '');
+    if (!match) {
+        throw Error(`The partial response has no valid Content-Range header: '${res.headers['content-range'] ?? ''}'.`);
+    }
+    return Number(match[1]);
+}
+
+function contentRangeSize(res: Response): number | undefined {
+    const match = /^bytes \*\/(\d+)$/.exec(res.headers['content-range'] ?? '');
+    return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { ClientRequest, IncomingMessage } from 'http';
+import { Request, Response } from "superagent";
+import { HttpRequest, readRequest } from "./Curl";
+import { Timings, trackTimings } from "./Timings";
+
+export interface HarHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * An exchange of a HAR 1.2 log, see http://www.softwareishard.com/blog/har-12-spec/.
+ */
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarHeader[];
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        postData?: { mimeType: string, text: string, params?: Array<{ name: string, value?: string, fileName?: string, contentType?: string }> };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarHeader[];
+        headers: HarHeader[];
+        content: { size: number, mimeType: string, text?: string, encoding?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: {};
+    timings: { blocked: number, dns: number, connect: number, ssl: number, send: number, wait: number, receive: number };
+}
+
+/**
+ * A HAR 1.2 log, the format the browser devtools import and export.
+ */
+export interface HarLog {
+    log: {
+        version: '1.2';
+        creator: { name: string, version: string };
+        entries: HarEntry[];
+    };
+}
+
+/**
+ * The exchanges recorded since `startHarRecording`, or undefined when not recording.
+ */
+let entries: HarEntry[] | undefined;
+
+/**
+ * Starts recording the exchanges of all API calls, e.g. in a global `before` hook.
+ * Every attempt of a retried or polled call is recorded; requests that failed without a response are not.
+ */
+export function startHarRecording(): void {
+    entries = [];
+}
+
+/**
+ * Stops recording.
+ * @param file - A file the log is written to, e.g. 'reports/api-tests.har'.
+ * @returns The log of the exchanges recorded since `startHarRecording`.
+ */
+export function stopHarRecording(file?: string): HarLog {
+    const log: HarLog = {
+        log: {
+            version: '1.2',
+            creator: { name: 'superagent-api-testing', version: '1.0.0' },
+            entries: entries ?? []
+        }
+    };
+    entries = undefined;
+    if (file) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, `${JSON.stringify(log, null, 2)}\n`);
+    }
+    return log;
+}
+
+/**
+ * Records the exchanges of a request while a recording is running.
+ * @param req - The request, before it is sent.
+ */
+export function recordHar(req: Request): void {
+    let startedDateTime = new Date();
+    let request: HttpRequest | undefined;
+    let timings: Timings | undefined;
+    // Read when the request is sent, before the multipart fields are consumed.
+    req.on('request', () => {
+        startedDateTime = new Date();
+        request = entries && readRequest(req);
+    });
+    trackTimings(req, measured => timings = measured);
+    req.on('response', (res: Response) => {
+        if (entries && request) {
+            entries.push(toEntry(request, res, startedDateTime, timings));
+        }
+    });
+}
+
+/**
+ * The Node.js request and response behind a superagent response, which superagent sets
+ * but doesn't declare, as far as a HAR entry reads them.
+ */
+interface NodeExchange {
+    req?: Pick<ClientRequest, 'getHeaders'>;
+    res?: Pick<IncomingMessage, 'httpVersion' | 'statusMessage'>;
+}
+
+function toEntry(request: HttpRequest, res: Response, startedDateTime: Date, timings: Timings | undefined): HarEntry {
+    const exchange: Response & NodeExchange = res;
+    const url = new URL(request.url);
+    const requestHeaders = Object.entries(exchange.req?.getHeaders() ?? request.headers)
+        .map(([name, value]) => ({ name, value: String(value) }));
+    const requestHeader = (header: string) => requestHeaders.find(h => h.name.toLowerCase() === header)?.value ?? '';
+    const binary = res.text === undefined && Buffer.isBuffer(res.body);
+    const text: string | undefined = binary ? res.body.toString('base64') : res.text;
+    const httpVersion = `HTTP/${exchange.res?.httpVersion ?? '1.1'}`;
+    return {
+        startedDateTime: startedDateTime.toISOString(),
+        time: timings?.total ?? 0,
+        request: {
+            method: request.method,
+            url: request.url,
+            httpVersion,
+            cookies: parseCookies(requestHeader('cookie').split(/;\s*/)),
+            headers: requestHeaders,
+            queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+            ...(request.body !== undefined ? { postData: { mimeType: requestHeader('content-type'), text: request.body } } : {}),
+            ...(request.form.length > 0 ? {
+                postData: {
+                    mimeType: requestHeader('content-type'),
+                    text: '',
+                    params: request.form.map(field => field.file === undefined
+                        ? { name: field.name, value: field.value }
+                        : { name: field.name, fileName: field.filename, ...(field.contentType ? { contentType: field.contentType } : {}) })
+                }
+            } : {}),
+            headersSize: -1,
+            bodySize: request.body !== undefined ? Buffer.byteLength(request.body) : request.form.length > 0 ? -1 : 0
+        },
+        response: {
+            status: res.status,
+            statusText: exchange.res?.statusMessage ?? '',
+            httpVersion,
+            cookies: parseCookies([res.headers['set-cookie'] ?? []].flat().map((cookie: string) => cookie.split(';')[0])),
+            headers: Object.entries(res.headers).flatMap(([name, value]) =>
+                [value].flat().map(v => ({ name, value: String(v) }))),
+            content: {
+                size: binary ? res.body.length : Buffer.byteLength(text ?? ''),
+                mimeType: res.headers['content-type'] ?? '',
+                ...(text !== undefined ? { text } : {}),
+                ...(binary ? { encoding: 'base64' } : {})
+            },
+            redirectURL: res.headers['location'] ?? '',
+            headersSize: -1,
+            bodySize: -1
+        },
+        cache: {},
+        timings: {
+            blocked: -1,
+            dns: timings?.dns ?? -1,
+            // In HAR the connect time includes the TLS handshake.
+            connect: timings ? timings.tcp + timings.tls : -1,
+            ssl: timings?.tls ?? -1,
+            send: 0,
+            wait: timings?.firstByte ?? 0,
+            receive: timings?.download ?? 0
+        }
+    };
+}
+
+function parseCookies(pairs: string[]): HarHeader[] {
+    return pairs.filter(pair => pair.includes('=')).map(pair => {
+        const separator = pair.indexOf('=');
+        return { name: pair.slice(0, separator).trim(), value: pair.slice(separator + 1).trim() };
+    });
+}
@@ -0,0 +1,215 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import { Schema, SchemaType } from "mongoose";
+
+/**
+ * A JSON Schema (draft 2020-12) document.
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * A single JSON Schema violation.
+ */
+export interface SchemaViolation {
+    /** JSON pointer to the offending value, e.g. '/0/age'. */
+    pointer: string;
+    message: string;
+}
+
+const ajv = new Ajv2020({ allErrors: true, strict: false });
+addFormats(ajv);
+
+// Values that arrive as strings, e.g. path, query and header parameters, are validated with type coercion.
+const coercingAjv = new Ajv2020({ allErrors: true, strict: false, coerceTypes: true });
+addFormats(coercingAjv);
+
+// The validators compiled by `validateJsonSchema`, by schema.
+const validators = new WeakMap<JsonSchema, ValidateFunction>();
+
+const OBJECT_ID_PATTERN = '^[0-9a-fA-F]{24}$';
+
+/**
+ * Validates a value against a JSON Schema draft 2020-12. Each schema is compiled once; a schema
+ * with an `$id` is compiled once per `$id`, as ajv keeps it under that id.
+ * @param schema - The JSON Schema.
+ * @param value - The value to validate.
+ * @returns Every violation found, empty when the value is valid.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaViolation[] {
+    let validate = validators.get(schema);
+    if (!validate) {
+        validate = (typeof schema.$id === 'string' ? ajv.getSchema(schema.$id) : undefined) ?? ajv.compile(schema);
+        validators.set(schema, validate);
+    }
+    if (validate(value)) {
+        return [];
+    }
+    return (validate.errors ?? []).map(toViolation);
+}
+
+/**
+ * Validates a value against a schema inside a larger document, e.g. an OpenAPI document,
+ * so that `$ref`s to other parts of the document resolve.
+ * @param document - The document containing the schema.
+ * @param documentId - A unique id of the document; it is compiled once per id.
+ * @param pointer - JSON pointer to the schema within the document, e.g. '/components/schemas/User'.
+ * @param value - The value to validate.
+ * @param coerceTypes - Whether strings are coerced to the schema type first, as for URL parameters.
+ * @returns Every violation found, empty when the value is valid.
+ */
+export function validateJsonSchemaAt(
+    document: JsonSchema,
+    documentId: string,
+    pointer: string,
+    value: unknown,
+    coerceTypes: boolean = false
+): SchemaViolation[] {
+    const instance = coerceTypes ? coercingAjv : ajv;
+    if (!instance.getSchema(documentId)) {
+        instance.addSchema(document, documentId);
+    }
+    const validate = instance.getSchema(`${documentId}#${encodeURI(pointer)}`);
+    if (!validate) {
+        throw Error(`No schema at '${pointer}' in '${documentId}'.`);
+    }
+    if (validate(value)) {
+        return [];
+    }
+    return (validate.errors ?? []).map(toViolation);
+}
+
+/**
+ * Formats violations as one line per violation, for assertion messages.
+ * @param violations - The violations.
+ * @returns The formatted violations.
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+    return violations.map(v => `  ${v.pointer || '/'}: ${v.message}`).join('\n');
+}
+
+function toViolation(error: ErrorObject): SchemaViolation {
+    // Point at the missing or unexpected property itself rather than at its parent object.
+    if (error.keyword === 'required') {
+        return { pointer: `${error.instancePath}/${escapePointer(error.params.missingProperty)}`, message: 'is required' };
+    }
+    if (error.keyword === 'additionalProperties') {
+        return { pointer: `${error.instancePath}/${escapePointer(error.params.additionalProperty)}`, message: 'is not allowed' };
+    }
+    return { pointer: error.instancePath, message: error.message ?? error.keyword };
+}
+
+/**
+ * Escapes a property name for use as a JSON pointer token.
+ * @param token - The property name.
+ * @returns The escaped token.
+ */
+export function escapePointer(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Options for building a JSON Schema from a mongoose schema.
+ */
+export interface MongooseSchemaOptions {
+    /** Whether properties not in the mongoose schema are rejected. Defaults to true. */
+    strict?: boolean;
+    /** Whether `_id` and `__v` are part of the schema, as in documents returned by the API. Defaults to true. */
+    includeIdAndVersion?: boolean;
+}
+
+/**
+ * Builds a JSON Schema (draft 2020-12) for documents of a mongoose schema, as they are serialized to JSON.
+ * Paths that are required or have a default are required, since saved documents always contain them.
+ * e.g. schemaFromMongoose(UserSchema) for the users of express-app.
+ * @param schema - The mongoose schema.
+ * @param options - The schema options.
+ * @returns The JSON Schema.
+ */
+export function schemaFromMongoose(schema: Schema, options: MongooseSchemaOptions = {}): JsonSchema {
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        ...objectSchema(schema, { strict: true, includeIdAndVersion: true, ...options })
+    };
+}
+
+function objectSchema(schema: Schema, options: Required<MongooseSchemaOptions>): JsonSchema {
+    const root: JsonSchema = { type: 'object', properties: {}, required: [], additionalProperties: !options.strict };
+    schema.eachPath((path, schemaType) => {
+        if (!options.includeIdAndVersion && (path === '_id' || path === '__v')) {
+            return;
+        }
+        // Nested paths such as 'address.city' become nested object schemas.
+        const segments = path.split('.');
+        let parent = root;
+        for (const segment of segments.slice(0, -1)) {
+            parent.properties[segment] ??= { type: 'object', properties: {}, required: [], additionalProperties: !options.strict };
+            if (!parent.required.includes(segment)) {
+                parent.required.push(segment);
+            }
+            parent = parent.properties[segment];
+        }
+        const name = segments[segments.length - 1];
+        parent.properties[name] = pathSchema(schemaType, options);
+        const isVersionOrId = path === '_id' || path === '__v';
+        if (schemaType.isRequired || schemaType.options?.default !== undefined || isVersionOrId) {
+            parent.required.push(name);
+        }
+    });
+    return root;
+}
+
+function pathSchema(schemaType: SchemaType, options: Required<MongooseSchemaOptions>): JsonSchema {
+    const typeOptions: Record<string, any> = schemaType.options ?? {};
+    const result: JsonSchema = {};
+    switch (schemaType.instance) {
+        case 'String':
+            result.type = 'string';
+            if (Array.isArray(typeOptions.enum)) result.enum = typeOptions.enum;
+            if (typeOptions.minlength !== undefined) result.minLength = valueOf(typeOptions.minlength);
+            if (typeOptions.maxlength !== undefined) result.maxLength = valueOf(typeOptions.maxlength);
+            if (typeOptions.match instanceof RegExp) result.pattern = typeOptions.match.source;
+            break;
+        case 'Number':
+            result.type = 'number';
+            if (typeOptions.min !== undefined) result.minimum = valueOf(typeOptions.min);
+            if (typeOptions.max !== undefined) result.maximum = valueOf(typeOptions.max);
+            if (Array.isArray(typeOptions.enum)) result.enum = typeOptions.enum;
+            break;
+        case 'Boolean':
+            result.type = 'boolean';
+            break;
+        case 'Date':
+            result.type = 'string';
+            result.format = 'date-time';
+            break;
+        case 'ObjectId':
+            result.type = 'string';
+            result.pattern = OBJECT_ID_PATTERN;
+            break;
+        case 'Array': {
+            result.type = 'array';
+            if (schemaType instanceof Schema.Types.DocumentArray) {
+                result.items = objectSchema(schemaType.schema, options);
+            } else if (schemaType instanceof Schema.Types.Array && schemaType.caster) {
+                result.items = pathSchema(schemaType.caster, options);
+            }
+            break;
+        }
+        case 'Embedded':
+            return schemaType instanceof Schema.Types.Subdocument ? objectSchema(schemaType.schema, options) : {};
+        default:
+            // Mixed and other types accept any value.
+            return {};
+    }
+    if (typeOptions.default !== undefined && typeof typeOptions.default !== 'function') {
+        result.default = typeOptions.default;
+    }
+    return result;
+}
+
+/**
+ * Mongoose validators may be given as [value, message]; the value is the first element.
+ */
+function valueOf(option: any): any {
+    return Array.isArray(option) ? option[0] : option;
+}
@@ -0,0 +1,300 @@
+import fs from 'fs';
+import path from 'path';
+import { ApiCall } from "./ApiCall";
+
+/**
+ * How the load is generated. Durations are in milliseconds.
+ * - `virtualUsers`: a fixed number of users, each sending the call again as soon as the previous one finished,
+ *   for a duration or a number of iterations per user.
+ * - `rampUp`: users are added or removed linearly to reach the target of each stage by its end, starting from 0.
+ * - `arrivalRate`: calls are started at a constant rate per second, whether earlier calls finished or not.
+ *   Calls that would exceed `maxInFlight` are dropped and counted as errors.
+ */
+export type LoadProfile =
+    | { type: 'virtualUsers', users: number, duration?: number, iterations?: number }
+    | { type: 'rampUp', stages: Array<{ duration: number, target: number }> }
+    | { type: 'arrivalRate', rate: number, duration: number, maxInFlight?: number };
+
+/**
+ * Options of a load test.
+ */
+export interface LoadTestOptions {
+    /** The name of the scenario, shown in the summary. */
+    name?: string;
+    profile: LoadProfile;
+    /**
+     * Conditions the results must meet, e.g. 'p95 < 200ms', 'errors < 1%' or 'throughput >= 50'.
+     * Metrics: min, mean, max, p50, p90, p95, p99 (ms), errors (% of calls), throughput (calls/s), requests.
+     */
+    thresholds?: string[];
+    /** A file the results are written to as JSON. */
+    outputFile?: string;
+    /** Whether the summary is printed. Defaults to true. */
+    printSummary?: boolean;
+}
+
+/**
+ * The result of a threshold.
+ */
+export interface ThresholdResult {
+    threshold: string;
+    actual: number;
+    passed: boolean;
+}
+
+/**
+ * The results of a load test. Latencies are in milliseconds.
+ */
+export interface LoadTestResult {
+    name: string;
+    startedAt: string;
+    durationMs: number;
+    requests: number;
+    errors: number;
+    /** The share of calls that failed, from 0 to 1. */
+    errorRate: number;
+    /** Completed calls per second. */
+    throughput: number;
+    latency: { min: number, mean: number, p50: number, p90: number, p95: number, p99: number, max: number };
+    statusCodes: Record<string, number>;
+    /** How often each error occurred, by message. */
+    errorMessages: Record<string, number>;
+    thresholds: ThresholdResult[];
+    passed: boolean;
+}
+
+const THRESHOLD = /^\s*(min|mean|max|p50|p90|p95|p99|errors|throughput|requests)\s*(<=|>=|<|>)\s*(\d+(?:\.\d+)?)\s*(ms|s|%)?\s*$/;
+
+/**
+ * Runs an existing `ApiCall` definition as a load scenario: every iteration sends a clone of the call,
+ * with its headers, body and assertions, and a failed assertion counts as an error.
+ * e.g.
+ * await new LoadTest(client.call(ApiMethods.GET, '/users').expectStatus(200), {
+ *     profile: { type: 'virtualUsers', users: 10, duration: 30000 },
+ *     thresholds: ['p95 < 200ms', 'errors < 1%']
+ * }).run();
+ */
+export class LoadTest {
+
+    private readonly _call: ApiCall;
+    private readonly _options: LoadTestOptions;
+    private readonly _latencies: number[] = [];
+    private readonly _statusCodes: Record<string, number> = {};
+    private readonly _errorMessages: Record<string, number> = {};
+    private _errors = 0;
+    private _dropped = 0;
+
+    /**
+     * @param call - The call to send; it is used as a template and not sent itself.
+     * @param options - The load profile, thresholds and output.
+     */
+    constructor(call: ApiCall, options: LoadTestOptions) {
+        this._call = call;
+        this._options = options;
+        (options.thresholds ?? []).forEach(threshold => {
+            if (!THRESHOLD.test(threshold)) {
+                throw Error(`Invalid threshold '${threshold}'. Use e.g. 'p95 < 200ms' or 'errors < 1%'.`);
+            }
+        });
+    }
+
+    /**
+     * Runs the load test, prints the summary and writes the JSON results.
+     * @returns The results.
+     * @throws If a threshold is not met.
+     */
+    public async run(): Promise<LoadTestResult> {
+        const startedAt = new Date();
+        const start = Date.now();
+        const profile = this._options.profile;
+        if (profile.type === 'virtualUsers') {
+            await this.runVirtualUsers(profile.users, profile.duration, profile.iterations);
+        } else if (profile.type === 'rampUp') {
+            await this.runRampUp(profile.stages);
+        } else {
+            await this.runArrivalRate(profile.rate, profile.duration, profile.maxInFlight ?? 100);
+        }
+        const result = this.result(startedAt, Date.now() - start);
+
+        if (this._options.printSummary ?? true) {
+            console.log(formatSummary(result));
+        }
+        if (this._options.outputFile) {
+            fs.mkdirSync(path.dirname(this._options.outputFile), { recursive: true });
+            fs.writeFileSync(this._options.outputFile, `${JSON.stringify(result, null, 2)}\n`);
+        }
+        const failed = result.thresholds.filter(threshold => !threshold.passed);
+        if (failed.length > 0) {
+            throw Error(`Load test '${result.name}' failed its thresholds:\n${failed.map(t => `  ${t.threshold} (actual ${t.actual})`).join('\n')}`);
+        }
+        return result;
+    }
+
+    private async runVirtualUsers(users: number, duration?: number, iterations?: number): Promise<void> {
+        if (duration === undefined && iterations === undefined) {
+            throw Error("A 'virtualUsers' profile needs a duration or a number of iterations.");
+        }
+        const end = duration !== undefined ? Date.now() + duration : Infinity;
+        await Promise.all(Array.from({ length: users }, async () => {
+            for (let i = 0; i < (iterations ?? Infinity) && Date.now() < end; i++) {
+                await this.iteration();
+            }
+        }));
+    }
+
+    private async runRampUp(stages: Array<{ duration: number, target: number }>): Promise<void> {
+        const start = Date.now();
+        const end = start + stages.reduce((sum, stage) => sum + stage.duration, 0);
+        // The number of users that should be active at a time, interpolated within the current stage.
+        const target = (time: number): number => {
+            let stageStart = start;
+            let previous = 0;
+            for (const stage of stages) {
+                if (time < stageStart + stage.duration) {
+                    return Math.round(previous + (stage.target - previous) * (time - stageStart) / stage.duration);
+                }
+                stageStart += stage.duration;
+                previous = stage.target;
+            }
+            return previous;
+        };
+        const maxUsers = Math.max(...stages.map(stage => stage.target));
+        await Promise.all(Array.from({ length: maxUsers }, async (_, user) => {
+            while (Date.now() < end) {
+                if (user < target(Date.now())) {
+                    await this.iteration();
+                } else {
+                    await sleep(50);
+                }
+            }
+        }));
+    }
+
+    private async runArrivalRate(rate: number, duration: number, maxInFlight: number): Promise<void> {
+        const interval = 1000 / rate;
+        const start = Date.now();
+        const inFlight = new Set<Promise<void>>();
+        for (let i = 0; i * interval < duration; i++) {
+            await sleep(start + i * interval - Date.now());
+            if (inFlight.size >= maxInFlight) {
+                this._dropped++;
+                this.recordError(`dropped: more than ${maxInFlight} calls in flight`);
+                continue;
+            }
+            const iteration = this.iteration().finally(() => inFlight.delete(iteration));
+            inFlight.add(iteration);
+        }
+        await Promise.all(inFlight);
+    }
+
+    private async iteration(): Promise<void> {
+        let status: number | undefined;
+        const call = this._call.clone().setOnceResponseHandler(res => status = res.status);
+        const start = Date.now();
+        try {
+            await call.done();
+        } catch (err: any) {
+            this.recordError(err.message);
+        }
+        // Calls that failed without a response have no timings.
+        this._latencies.push(status !== undefined ? call.getTimings().total : Date.now() - start);
+        if (status !== undefined) {
+            this.count(this._statusCodes, String(status));
+        }
+    }
+
+    private recordError(message: string): void {
+        this._errors++;
+        this.count(this._errorMessages, message.split('\n')[0]);
+    }
+
+    private count(counts: Record<string, number>, key: string): void {
+        counts[key] = (counts[key] ?? 0) + 1;
+    }
+
+    private result(startedAt: Date, durationMs: number): LoadTestResult {
+        const sorted = [...this._latencies].sort((a, b) => a - b);
+        const completed = this._latencies.length;
+        const requests = completed + this._dropped;
+        const round = (value: number) => Math.round(value * 10) / 10;
+        const result: LoadTestResult = {
+            name: this._options.name ?? 'load test',
+            startedAt: startedAt.toISOString(),
+            durationMs,
+            requests,
+            errors: this._errors,
+            errorRate: requests > 0 ? this._errors / requests : 0,
+            throughput: round(completed / (durationMs / 1000)),
+            latency: {
+                min: round(sorted[0] ?? 0),
+                mean: round(completed > 0 ? sorted.reduce((sum, value) => sum + value, 0) / completed : 0),
+                p50: round(percentile(sorted, 50)),
+                p90: round(percentile(sorted, 90)),
+                p95: round(percentile(sorted, 95)),
+                p99: round(percentile(sorted, 99)),
+                max: round(sorted[sorted.length - 1] ?? 0)
+            },
+            statusCodes: this._statusCodes,
+            errorMessages: this._errorMessages,
+            thresholds: [],
+            passed: true
+        };
+        result.thresholds = (this._options.thresholds ?? []).map(threshold => evaluateThreshold(threshold, result));
+        result.passed = result.thresholds.every(threshold => threshold.passed);
+        return result;
+    }
+}
+
+/**
+ * The nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+function evaluateThreshold(threshold: string, result: LoadTestResult): ThresholdResult {
+    const [, metric, operator, value, unit] = THRESHOLD.exec(threshold)!;
+    let actual: number;
+    let limit = Number(value);
+    if (metric === 'errors') {
+        actual = Math.round(result.errorRate * 10000) / 100;
+        limit = unit === '%' ? limit : limit * 100;
+    } else if (metric === 'throughput' || metric === 'requests') {
+        actual = result[metric];
+    } else {
+        actual = result.latency[metric as keyof LoadTestResult['latency']];
+        limit = unit === 's' ? limit * 1000 : limit;
+    }
+    const passed = operator === '<' ? actual < limit
+        : operator === '<=' ? actual <= limit
+            : operator === '>' ? actual > limit
+                : actual >= limit;
+    return { threshold, actual, passed };
+}
+
+/**
+ * Formats the results as a text summary.
+ * @param result - The results of a load test.
+ * @returns The summary.
+ */
+export function formatSummary(result: LoadTestResult): string {
+    const { latency } = result;
+    const lines = [
+        `Load test '${result.name}': ${result.passed ? 'PASSED' : 'FAILED'}`,
+        `  duration     ${(result.durationMs / 1000).toFixed(1)} s`,
+        `  requests     ${result.requests} (${result.throughput}/s)`,
+        `  errors       ${result.errors} (${(result.errorRate * 100).toFixed(2)}%)`,
+        `  latency      min ${latency.min} ms, mean ${latency.mean} ms, p50 ${latency.p50} ms, p90 ${latency.p90} ms, p95 ${latency.p95} ms, p99 ${latency.p99} ms, max ${latency.max} ms`,
+        `  status codes ${Object.entries(result.statusCodes).map(([status, count]) => `${status}: ${count}`).join(', ') || '-'}`
+    ];
+    Object.entries(result.errorMessages).forEach(([message, count]) => lines.push(`  error        ${count} x ${message}`));
+    result.thresholds.forEach(t => lines.push(`  ${t.passed ? '✓' : '✗'} ${t.threshold} (actual ${t.actual})`));
+    return lines.join('\n');
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
@@ -0,0 +1,183 @@
+/**
+ * A check on a single value, used in place of an expected value in body assertions.
+ */
+export class Matcher {
+
+    /**
+     * @param description - What the matcher expects, e.g. 'any string'. Shown in failure messages.
+     * @param test - Checks the actual value.
+     */
+    constructor(
+        public readonly description: string,
+        private readonly test: (actual: unknown) => boolean
+    ) { }
+
+    /**
+     * Checks a value against the matcher.
+     * @param actual - The actual value.
+     * @returns True if the value matches, false otherwise.
+     */
+    public matches(actual: unknown): boolean {
+        return this.test(actual);
+    }
+
+    public toString(): string {
+        return `<${this.description}>`;
+    }
+}
+
+/**
+ * A value that doesn't match the expectation, with its JSONPath.
+ */
+export interface Mismatch {
+    path: string;
+    expected: string;
+    actual: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const OBJECT_ID = /^[0-9a-fA-F]{24}$/;
+
+/**
+ * The built-in matchers.
+ * e.g. expectBodyContaining({ _id: match.objectId(), age: match.numberInRange(18, 65) })
+ */
+export const match = {
+    /** Matches any value except undefined. */
+    anything: (): Matcher => new Matcher('anything', actual => actual !== undefined),
+
+    /** Matches any string. */
+    anyString: (): Matcher => new Matcher('any string', actual => typeof actual === 'string'),
+
+    /** Matches any finite number. */
+    anyNumber: (): Matcher => new Matcher('any number', actual => typeof actual === 'number' && Number.isFinite(actual)),
+
+    /** Matches any boolean. */
+    anyBoolean: (): Matcher => new Matcher('any boolean', actual => typeof actual === 'boolean'),
+
+    /** Matches a string against a regular expression. */
+    regex: (pattern: RegExp | string): Matcher => {
+        const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+        return new Matcher(`string matching ${regex}`, actual => typeof actual === 'string' && regex.test(actual));
+    },
+
+    /** Matches a number between min and max, both inclusive. */
+    numberInRange: (min: number, max: number): Matcher =>
+        new Matcher(`number between ${min} and ${max}`, actual => typeof actual === 'number' && actual >= min && actual <= max),
+
+    /** Matches an ISO 8601 date or date-time string, e.g. '2024-05-01T10:00:00.000Z'. */
+    isoDate: (): Matcher =>
+        new Matcher('ISO 8601 date', actual => typeof actual === 'string' && ISO_DATE.test(actual) && !Number.isNaN(Date.parse(actual))),
+
+    /** Matches a MongoDB ObjectId as serialized to JSON, i.e. 24 hex digits. */
+    objectId: (): Matcher => new Matcher('ObjectId', actual => typeof actual === 'string' && OBJECT_ID.test(actual)),
+
+    /** Matches an array that contains an element matching each of the expected items, in any order. */
+    arrayContaining: (items: unknown[]): Matcher =>
+        new Matcher(
+            `array containing ${items.map(formatValue).join(', ')}`,
+            actual => Array.isArray(actual) && items.every(item => actual.some(element => findMismatches(item, element).length === 0))
+        ),
+
+    /** Matches an array with exactly the given number of elements. */
+    arrayOfLength: (length: number): Matcher =>
+        new Matcher(`array of length ${length}`, actual => Array.isArray(actual) && actual.length === length),
+
+    /** Matches a value that satisfies a predicate. */
+    satisfying: (description: string, predicate: (actual: any) => boolean): Matcher => new Matcher(description, predicate)
+};
+
+/**
+ * Compares an actual value with an expected value, which may contain matchers.
+ * Objects match partially: properties of the actual object that are not expected are ignored.
+ * Arrays must have the same length and match element by element.
+ * @param expected - The expected value.
+ * @param actual - The actual value.
+ * @param path - The JSONPath of the values, used in the mismatches.
+ * @returns Every mismatch found, empty when the value matches.
+ */
+export function findMismatches(expected: unknown, actual: unknown, path: string = '$'): Mismatch[] {
+    if (expected instanceof Matcher) {
+        return expected.matches(actual) ? [] : [{ path, expected: expected.toString(), actual: formatValue(actual) }];
+    }
+    if (Array.isArray(expected)) {
+        if (!Array.isArray(actual)) {
+            return [{ path, expected: 'array', actual: formatValue(actual) }];
+        }
+        if (actual.length !== expected.length) {
+            return [{ path, expected: `array of length ${expected.length}`, actual: `array of length ${actual.length}` }];
+        }
+        return expected.flatMap((item, i) => findMismatches(item, actual[i], `${path}[${i}]`));
+    }
+    if (isPlainObject(expected)) {
+        if (!isPlainObject(actual)) {
+            return [{ path, expected: 'object', actual: formatValue(actual) }];
+        }
+        return Object.entries(expected).flatMap(([key, value]) => findMismatches(value, actual[key], childPath(path, key)));
+    }
+    return Object.is(expected, actual) ? [] : [{ path, expected: formatValue(expected), actual: formatValue(actual) }];
+}
+
+/**
+ * Renders a structural diff of an expected value, which may contain matchers, and an actual value.
+ * Only the expected structure is shown; lines that don't match are prefixed with '-' (expected) and '+' (actual).
+ * @param expected - The expected value.
+ * @param actual - The actual value.
+ * @returns The diff.
+ */
+export function diff(expected: unknown, actual: unknown): string {
+    return ['- Expected', '+ Received', '', ...diffLines(expected, actual, '', '')].join('\n');
+}
+
+function diffLines(expected: unknown, actual: unknown, indent: string, label: string): string[] {
+    if (Array.isArray(expected) && Array.isArray(actual) && expected.length === actual.length) {
+        return [
+            `  ${indent}${label}[`,
+            ...expected.flatMap((item, i) => diffLines(item, actual[i], `${indent}  `, '')),
+            `  ${indent}]`
+        ];
+    }
+    if (isPlainObject(expected) && isPlainObject(actual)) {
+        return [
+            `  ${indent}${label}{`,
+            ...Object.entries(expected).flatMap(([key, value]) => diffLines(value, actual[key], `${indent}  `, `${JSON.stringify(key)}: `)),
+            `  ${indent}}`
+        ];
+    }
+    if (findMismatches(expected, actual).length === 0) {
+        return [`  ${indent}${label}${formatValue(actual)}`];
+    }
+    return [
+        `- ${indent}${label}${expected instanceof Matcher ? expected.toString() : formatValue(expected)}`,
+        `+ ${indent}${label}${formatValue(actual)}`
+    ];
+}
+
+/**
+ * Formats mismatches as one line per mismatch, for assertion messages.
+ * @param mismatches - The mismatches.
+ * @returns The formatted mismatches.
+ */
+export function formatMismatches(mismatches: Mismatch[]): string {
+    return mismatches.map(m => `  ${m.path}: expected ${m.expected}, got ${m.actual}`).join('\n');
+}
+
+function formatValue(value: unknown): string {
+    if (value instanceof Matcher) {
+        return value.toString();
+    }
+    if (value === undefined) {
+        return 'undefined';
+    }
+    // JSON.stringify returns undefined for functions and symbols.
+    const text = JSON.stringify(value, (_key, item) => item instanceof Matcher ? item.toString() : item) ?? String(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,349 @@
+import supertest from "supertest";
+import { ApiTarget } from "./ApiCall";
+import { JsonSchema, escapePointer, validateJsonSchemaAt, formatViolations } from "./JsonSchema";
+
+/**
+ * An OpenAPI 3.1 document.
+ */
+export type OpenApiDocument = Record<string, any>;
+
+/**
+ * The parts of an HTTP exchange checked against the contract.
+ */
+export interface ContractExchange {
+    method: string;
+    /** The request path including the query string, e.g. '/users?page=2'. */
+    path: string;
+    requestHeaders: Record<string, string | undefined>;
+    requestBody?: unknown;
+    status: number;
+    responseHeaders: Record<string, string | undefined>;
+    responseBody?: unknown;
+    /** Whether the response had a body at all. */
+    hasResponseBody: boolean;
+}
+
+/**
+ * An operation of the document matched by a request.
+ */
+export interface MatchedOperation {
+    method: string;
+    pathTemplate: string;
+    pathParams: Record<string, string>;
+    operation: Record<string, any>;
+    /** JSON pointer to the operation within the document. */
+    pointer: string;
+}
+
+let documentCount = 0;
+
+/**
+ * Checks HTTP exchanges against an OpenAPI 3.1 document: the operation is looked up by method and path,
+ * then the request parameters and body, the response status, content type, headers and body are validated.
+ */
+export class OpenApiContract {
+
+    private readonly _document: OpenApiDocument;
+    private readonly _documentId: string;
+    private readonly _basePaths: string[];
+
+    /**
+     * @param document - The OpenAPI document, e.g. require('../express-app/openapi.json').
+     */
+    constructor(document: OpenApiDocument) {
+        this._document = document;
+        this._documentId = `openapi-contract-${++documentCount}`;
+        const servers: Array<{ url: string }> = document.servers ?? [];
+        // Paths in the document are relative to the path of the server URLs, e.g. '/api'.
+        this._basePaths = [...new Set(['', ...servers.map(server => new URL(server.url, 'http://localhost').pathname.replace(/\/+$/, ''))])];
+    }
+
+    /**
+     * Loads the OpenAPI document served by an API.
+     * @param target - The base URL, Express app or http.Server of the API.
+     * @param path - The path the document is served at.
+     * @returns The contract.
+     */
+    public static async load(target: ApiTarget, path: string = '/openapi.json'): Promise<OpenApiContract> {
+        const res = await supertest(target).get(path).expect(200);
+        return new OpenApiContract(res.body);
+    }
+
+    /**
+     * Gets the OpenAPI document of the contract.
+     * @returns The OpenAPI document.
+     */
+    public getDocument(): OpenApiDocument {
+        return this._document;
+    }
+
+    /**
+     * Finds the operation of the document that matches a request.
+     * @param method - The HTTP method.
+     * @param path - The request path; a query string is ignored.
+     * @returns The matched operation, or undefined if no operation matches.
+     */
+    public findOperation(method: string, path: string): MatchedOperation | undefined {
+        const pathname = path.split('?')[0];
+        const lowerMethod = method.toLowerCase();
+        const paths: Record<string, any> = this._document.paths ?? {};
+        // Literal templates are tried first, so '/users/me' wins over '/users/{id}'.
+        const templates = Object.keys(paths).sort((a, b) => a.split('{').length - b.split('{').length);
+        for (const basePath of this._basePaths) {
+            if (!pathname.startsWith(basePath)) {
+                continue;
+            }
+            const relativePath = pathname.slice(basePath.length) || '/';
+            for (const template of templates) {
+                const pathParams = matchTemplate(template, relativePath);
+                if (pathParams && paths[template][lowerMethod]) {
+                    return {
+                        method: lowerMethod,
+                        pathTemplate: template,
+                        pathParams,
+                        operation: paths[template][lowerMethod],
+                        pointer: `/paths/${escapePointer(template)}/${lowerMethod}`
+                    };
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Validates an exchange against the contract.
+     * @param exchange - The request and response.
+     * @returns Every contract violation found, empty when the exchange matches the contract.
+     */
+    public validate(exchange: ContractExchange): string[] {
+        const matched = this.findOperation(exchange.method, exchange.path);
+        if (!matched) {
+            return [`No operation in the OpenAPI document matches ${exchange.method.toUpperCase()} ${exchange.path.split('?')[0]}.`];
+        }
+        return [...this.validateRequest(matched, exchange), ...this.validateResponse(matched, exchange)];
+    }
+
+    /**
+     * Validates the parameters and body of a request against its operation.
+     * @param matched - The operation of the request.
+     * @param exchange - The request and response.
+     * @returns Every request violation found.
+     */
+    public validateRequest(matched: MatchedOperation, exchange: ContractExchange): string[] {
+        const errors: string[] = [];
+        const query = new URLSearchParams(exchange.path.split('?')[1] ?? '');
+
+        for (const { parameter, pointer } of this.parametersOf(matched)) {
+            const name: string = parameter.name;
+            let value: string | undefined;
+            switch (parameter.in) {
+                case 'path':
+                    value = matched.pathParams[name];
+                    break;
+                case 'query':
+                    value = query.get(name) ?? undefined;
+                    break;
+                case 'header':
+                    value = headerValue(exchange.requestHeaders, name);
+                    break;
+                default:
+                    continue;
+            }
+            if (value === undefined) {
+                if (parameter.required) {
+                    errors.push(`Request ${parameter.in} parameter '${name}' is required.`);
+                }
+                continue;
+            }
+            if (parameter.schema) {
+                const violations = this.validateSchema(`${pointer}/schema`, value, true);
+                if (violations.length > 0) {
+                    errors.push(`Request ${parameter.in} parameter '${name}' does not match the schema:\n${violations}`);
+                }
+            }
+        }
+
+        const requestBody = matched.operation.requestBody && this.resolve(matched.operation.requestBody, `${matched.pointer}/requestBody`);
+        const hasBody = exchange.requestBody !== undefined && exchange.requestBody !== '';
+        if (!requestBody) {
+            if (hasBody) {
+                errors.push(`Request has a body, but ${this.describe(matched)} accepts none.`);
+            }
+            return errors;
+        }
+        if (!hasBody) {
+            if (requestBody.node.required) {
+                errors.push(`Request body is required by ${this.describe(matched)}.`);
+            }
+            return errors;
+        }
+        const contentType = headerValue(exchange.requestHeaders, 'content-type');
+        const mediaType = findMediaType(requestBody.node.content ?? {}, contentType);
+        if (!mediaType) {
+            errors.push(`Request Content-Type '${contentType ?? ''}' is not one of ${Object.keys(requestBody.node.content ?? {}).join(', ')}.`);
+        } else if (requestBody.node.content[mediaType].schema && isJson(mediaType)) {
+            const violations = this.validateSchema(`${requestBody.pointer}/content/${escapePointer(mediaType)}/schema`, parseJson(exchange.requestBody));
+            if (violations.length > 0) {
+                errors.push(`Request body does not match the schema:\n${violations}`);
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Validates the status, content type, headers and body of a response against its operation.
+     * @param matched - The operation of the request.
+     * @param exchange - The request and response.
+     * @returns Every response violation found.
+     */
+    public validateResponse(matched: MatchedOperation, exchange: ContractExchange): string[] {
+        const responses: Record<string, any> = matched.operation.responses ?? {};
+        const statusKey = [String(exchange.status), `${String(exchange.status)[0]}XX`, 'default'].find(key => key in responses);
+        if (!statusKey) {
+            return [`Response status ${exchange.status} is not documented for ${this.describe(matched)}; expected one of ${Object.keys(responses).join(', ')}.`];
+        }
+        const errors: string[] = [];
+        const response = this.resolve(responses[statusKey], `${matched.pointer}/responses/${statusKey}`);
+
+        for (const [name, header] of Object.entries<any>(response.node.headers ?? {})) {
+            // Content-Type is described by `content`, not by `headers`.
+            if (name.toLowerCase() === 'content-type') {
+                continue;
+            }
+            const resolved = this.resolve(header, `${response.pointer}/headers/${escapePointer(name)}`);
+            const value = headerValue(exchange.responseHeaders, name);
+            if (value === undefined) {
+                if (resolved.node.required) {
+                    errors.push(`Response header '${name}' is required for status ${statusKey}.`);
+                }
+            } else if (resolved.node.schema) {
+                const violations = this.validateSchema(`${resolved.pointer}/schema`, value, true);
+                if (violations.length > 0) {
+                    errors.push(`Response header '${name}' does not match the schema:\n${violations}`);
+                }
+            }
+        }
+
+        const content: Record<string, any> | undefined = response.node.content;
+        if (!content || Object.keys(content).length === 0) {
+            if (exchange.hasResponseBody) {
+                errors.push(`Response has a body, but status ${statusKey} of ${this.describe(matched)} has no content.`);
+            }
+            return errors;
+        }
+        const contentType = headerValue(exchange.responseHeaders, 'content-type');
+        const mediaType = findMediaType(content, contentType);
+        if (!mediaType) {
+            errors.push(`Response Content-Type '${contentType ?? ''}' is not one of ${Object.keys(content).join(', ')}.`);
+        } else if (content[mediaType].schema && isJson(mediaType)) {
+            const violations = this.validateSchema(`${response.pointer}/content/${escapePointer(mediaType)}/schema`, exchange.responseBody);
+            if (violations.length > 0) {
+                errors.push(`Response body does not match the schema:\n${violations}`);
+            }
+        }
+        return errors;
+    }
+
+    private describe(matched: MatchedOperation): string {
+        return `${matched.method.toUpperCase()} ${matched.pathTemplate}`;
+    }
+
+    /**
+     * Gets the parameters of an operation, including those declared on its path item.
+     * Operation parameters override path item parameters with the same name and location.
+     */
+    private parametersOf(matched: MatchedOperation): Array<{ parameter: any, pointer: string }> {
+        const pathItemPointer = `/paths/${escapePointer(matched.pathTemplate)}`;
+        const pathItem = this._document.paths[matched.pathTemplate];
+        const parameters = new Map<string, { parameter: any, pointer: string }>();
+        const add = (list: any[] | undefined, pointer: string) => (list ?? []).forEach((parameter, index) => {
+            const resolved = this.resolve(parameter, `${pointer}/parameters/${index}`);
+            parameters.set(`${resolved.node.in}:${resolved.node.name}`, { parameter: resolved.node, pointer: resolved.pointer });
+        });
+        add(pathItem.parameters, pathItemPointer);
+        add(matched.operation.parameters, matched.pointer);
+        return [...parameters.values()];
+    }
+
+    /**
+     * Follows local `$ref`s of the document, e.g. to '#/components/parameters/UserId'.
+     */
+    private resolve(node: any, pointer: string): { node: any, pointer: string } {
+        const seen = new Set<string>();
+        while (node && typeof node.$ref === 'string' && node.$ref.startsWith('#')) {
+            if (seen.has(node.$ref)) {
+                throw Error(`Circular $ref '${node.$ref}' in the OpenAPI document.`);
+            }
+            seen.add(node.$ref);
+            pointer = decodeURIComponent(node.$ref.slice(1));
+            node = pointer.split('/').slice(1)
+                .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+                .reduce((parent, token) => parent?.[token], this._document);
+        }
+        if (node === undefined) {
+            throw Error(`'${pointer}' does not exist in the OpenAPI document.`);
+        }
+        return { node, pointer };
+    }
+
+    private validateSchema(pointer: string, value: unknown, coerceTypes: boolean = false): string {
+        return formatViolations(validateJsonSchemaAt(this._document as JsonSchema, this._documentId, pointer, value, coerceTypes));
+    }
+}
+
+/**
+ * Matches a path against a path template such as '/users/{id}'.
+ * @returns The decoded path parameters, or undefined if the path doesn't match.
+ */
+function matchTemplate(template: string, path: string): Record<string, string> | undefined {
+    const names: string[] = [];
+    const pattern = template
+        .split(/(\{[^}]+\})/)
+        .map(part => {
+            if (part.startsWith('{') && part.endsWith('}')) {
+                names.push(part.slice(1, -1));
+                return '([^/]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    const match = new RegExp(`^${pattern}/?$`).exec(path);
+    if (!match) {
+        return undefined;
+    }
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+}
+
+/**
+ * Picks the media type of `content` that matches a Content-Type header, allowing ranges such as 'application/*'.
+ */
+function findMediaType(content: Record<string, any>, contentType: string | undefined): string | undefined {
+    if (!contentType) {
+        return undefined;
+    }
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    const [main] = type.split('/');
+    return Object.keys(content).find(key => key.toLowerCase() === type)
+        ?? Object.keys(content).find(key => key.toLowerCase() === `${main}/*`)
+        ?? Object.keys(content).find(key => key === '*/*');
+}
+
+function isJson(mediaType: string): boolean {
+    return /^application\/(.+\+)?json$/i.test(mediaType);
+}
+
+function parseJson(body: unknown): unknown {
+    if (typeof body !== 'string') {
+        return body;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+function headerValue(headers: Record<string, string | undefined>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : headers[key];
+}
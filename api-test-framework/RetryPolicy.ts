@@ -0,0 +1,159 @@
+import { Response } from "supertest";
+
+/**
+ * Options of a retry policy.
+ */
+export interface RetryPolicyOptions {
+    /** How many times a request is retried at most. Defaults to 3. */
+    maxRetries?: number;
+    /** The delay before the first retry, in milliseconds. Defaults to 100. */
+    baseDelayMs?: number;
+    /** The factor the delay grows by with each retry. Defaults to 2. */
+    factor?: number;
+    /** The longest delay before a retry, in milliseconds. Defaults to 10000. */
+    maxDelayMs?: number;
+    /** Whether a random delay between 0 and the backoff delay is used ("full jitter"). Defaults to true. */
+    jitter?: boolean;
+    /** Response statuses that are retried. */
+    statusCodes?: number[];
+    /** Error codes that are retried, e.g. 'ECONNRESET', or 'ECONNABORTED' for a timeout. */
+    errorCodes?: string[];
+    /** Whether a Retry-After response header sets the delay. Defaults to true. */
+    respectRetryAfter?: boolean;
+    /** Whether POST and PATCH requests are retried without an Idempotency-Key header. Defaults to false. */
+    retryNonIdempotent?: boolean;
+}
+
+/**
+ * One attempt of a request made under a retry policy.
+ */
+export interface RetryAttempt {
+    /** The number of the attempt, starting at 1. */
+    attempt: number;
+    /** The response status, if a response was received. */
+    status?: number;
+    /** The error code, if the attempt failed without a response. */
+    error?: string;
+    /** Whether the request was retried after this attempt. */
+    retried: boolean;
+    /** The delay before the retry, in milliseconds. */
+    delayMs?: number;
+    /** Why the request was or wasn't retried. */
+    reason: string;
+}
+
+/**
+ * A decision of a retry policy about a finished attempt.
+ */
+export interface RetryDecision {
+    retry: boolean;
+    delayMs: number;
+    reason: string;
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN'];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS', 'TRACE'];
+
+/**
+ * Decides whether and when a failed request is retried: exponential backoff with jitter,
+ * retries only on the configured statuses and error codes, Retry-After headers honoured,
+ * and non-idempotent methods left alone unless the request carries an Idempotency-Key.
+ * e.g. apiCall.setRetryPolicy(new RetryPolicy({ maxRetries: 5, statusCodes: [503] }))
+ */
+export class RetryPolicy {
+
+    private readonly _options: Required<RetryPolicyOptions>;
+
+    /**
+     * @param options - The options of the policy.
+     */
+    constructor(options: RetryPolicyOptions = {}) {
+        this._options = {
+            maxRetries: 3,
+            baseDelayMs: 100,
+            factor: 2,
+            maxDelayMs: 10000,
+            jitter: true,
+            statusCodes: DEFAULT_RETRY_STATUS_CODES,
+            errorCodes: DEFAULT_RETRY_ERROR_CODES,
+            respectRetryAfter: true,
+            retryNonIdempotent: false,
+            ...options
+        };
+        if (this._options.maxRetries < 0 || this._options.baseDelayMs < 0 || this._options.factor < 1) {
+            throw Error('A retry policy needs maxRetries >= 0, baseDelayMs >= 0 and factor >= 1.');
+        }
+    }
+
+    /**
+     * Gets the number of retries the policy allows.
+     * @returns The maximum number of retries.
+     */
+    public getMaxRetries(): number {
+        return this._options.maxRetries;
+    }
+
+    /**
+     * Decides whether a finished attempt is retried.
+     * @param method - The HTTP method of the request.
+     * @param idempotencyKey - The Idempotency-Key header of the request, if any.
+     * @param attempt - The number of the attempt, starting at 1.
+     * @param error - The error of the attempt, if it failed without a response.
+     * @param res - The response of the attempt, if any.
+     * @returns The decision.
+     */
+    public decide(method: string, idempotencyKey: string | undefined, attempt: number, error?: any, res?: Response): RetryDecision {
+        const noRetry = (reason: string): RetryDecision => ({ retry: false, delayMs: 0, reason });
+        const status = res?.status;
+        if (status !== undefined && !this._options.statusCodes.includes(status)) {
+            return noRetry(`status ${status} is not retried`);
+        }
+        if (status === undefined && !this._options.errorCodes.includes(error?.code)) {
+            return noRetry(`error ${error?.code ?? error?.message} is not retried`);
+        }
+        if (!IDEMPOTENT_METHODS.includes(method.toUpperCase()) && !idempotencyKey && !this._options.retryNonIdempotent) {
+            return noRetry(`${method.toUpperCase()} is not idempotent and has no Idempotency-Key`);
+        }
+        if (attempt > this._options.maxRetries) {
+            return noRetry(`no retries left after ${this._options.maxRetries}`);
+        }
+        const cause = status !== undefined ? `status ${status}` : `error ${error.code}`;
+        const retryAfter = this._options.respectRetryAfter ? parseRetryAfter(res?.headers?.['retry-after']) : undefined;
+        if (retryAfter !== undefined) {
+            if (retryAfter > this._options.maxDelayMs) {
+                return noRetry(`Retry-After of ${retryAfter} ms exceeds maxDelayMs`);
+            }
+            return { retry: true, delayMs: retryAfter, reason: `${cause}, Retry-After` };
+        }
+        return { retry: true, delayMs: this.backoff(attempt), reason: cause };
+    }
+
+    /**
+     * Computes the backoff delay before a retry.
+     * @param attempt - The number of the failed attempt, starting at 1.
+     * @returns The delay in milliseconds.
+     */
+    public backoff(attempt: number): number {
+        const { baseDelayMs, factor, maxDelayMs, jitter } = this._options;
+        const delay = Math.min(maxDelayMs, baseDelayMs * factor ** (attempt - 1));
+        return Math.round(jitter ? Math.random() * delay : delay);
+    }
+}
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+        return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
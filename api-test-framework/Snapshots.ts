@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { JSONPath } from "jsonpath-plus";
+import { Response } from "supertest";
+
+/**
+ * What is stored for a response.
+ */
+export interface ResponseSnapshot {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+/**
+ * Options for snapshots, set globally with `configureSnapshots` or per assertion.
+ */
+export interface SnapshotOptions {
+    /** Response headers stored in the snapshot, lowercase. */
+    headers?: string[];
+    /** JSONPaths of the snapshot, e.g. '$.body.._id' or '$.headers.date', whose values are replaced by '[redacted]'. */
+    redact?: string[];
+    /** The snapshot file; by default '__snapshots__/<test file>.snap.json' next to the test file. */
+    file?: string;
+}
+
+const REDACTED = '[redacted]';
+
+const defaults: Required<Omit<SnapshotOptions, 'file'>> = {
+    headers: ['content-type'],
+    redact: ['$.body.._id', '$.body..__v', '$.headers.date']
+};
+
+/**
+ * Snapshot files read in this run, with the snapshots used from each and the assertion that used them.
+ */
+const files = new Map<string, { snapshots: Record<string, ResponseSnapshot>, used: Map<string, symbol> }>();
+
+/**
+ * Changes the default snapshot options.
+ * @param options - The options to change; `redact` rules replace the default rules.
+ */
+export function configureSnapshots(options: Omit<SnapshotOptions, 'file'>): void {
+    Object.assign(defaults, options);
+}
+
+/**
+ * Whether changed snapshots are rewritten instead of failing, set with the UPDATE_SNAPSHOTS environment variable.
+ */
+export function isUpdateMode(): boolean {
+    return ['1', 'true'].includes((process.env.UPDATE_SNAPSHOTS ?? '').toLowerCase());
+}
+
+/**
+ * Finds the snapshot file for the test that is calling the framework, from the current stack.
+ * @returns The snapshot file next to the calling test file.
+ */
+export function defaultSnapshotFile(): string {
+    const frameworkDir = __dirname;
+    const callers = (new Error().stack ?? '')
+        .split('\n')
+        .map(line => /(?:at (?:async )?|\()((?:[A-Za-z]:)?[^()]+?):\d+:\d+\)?$/.exec(line.trim())?.[1])
+        .filter((file): file is string => !!file && path.isAbsolute(file));
+    const testFile = callers.find(file => !file.startsWith(frameworkDir) && !file.includes(`${path.sep}node_modules${path.sep}`));
+    if (!testFile) {
+        throw Error('Could not find the test file calling expectMatchesSnapshot; pass the snapshot file in the options.');
+    }
+    return path.join(path.dirname(testFile), '__snapshots__', `${path.basename(testFile)}.snap.json`);
+}
+
+/**
+ * Builds the redacted snapshot of a response.
+ * @param res - The response.
+ * @param options - The snapshot options.
+ * @returns The snapshot.
+ */
+export function toSnapshot(res: Response, options: SnapshotOptions = {}): ResponseSnapshot {
+    const { headers, redact } = { ...defaults, ...options };
+    const snapshot: ResponseSnapshot = {
+        status: res.status,
+        headers: Object.fromEntries(
+            headers.map(name => name.toLowerCase())
+                .filter(name => res.headers[name] !== undefined)
+                .map(name => [name, String(res.headers[name])])
+        ),
+        // Non-JSON bodies are stored as text.
+        body: /json/.test(res.type) ? JSON.parse(JSON.stringify(res.body)) : res.text ?? null
+    };
+    for (const rule of redact) {
+        JSONPath({
+            path: rule,
+            json: snapshot,
+            resultType: 'all',
+            callback: ({ parent, parentProperty }: any) => {
+                if (parent && parentProperty !== undefined) {
+                    parent[parentProperty] = REDACTED;
+                }
+            }
+        });
+    }
+    return snapshot;
+}
+
+/**
+ * Compares a response with its stored snapshot. A missing snapshot is written, except on CI;
+ * a changed snapshot is rewritten in update mode and fails otherwise.
+ * @param name - The name of the snapshot, unique within the snapshot file.
+ * @param res - The response.
+ * @param file - The snapshot file.
+ * @param options - The snapshot options.
+ * @param assertion - Identifies the assertion; it may check its snapshot any number of times, e.g. when its call
+ * is cloned or retried, but another assertion with the same name fails.
+ */
+export function matchSnapshot(name: string, res: Response, file: string, options: SnapshotOptions = {}, assertion: symbol = Symbol(name)): void {
+    const entry = load(file);
+    if ((entry.used.get(name) ?? assertion) !== assertion) {
+        throw Error(`Snapshot '${name}' is used more than once in ${file}.`);
+    }
+    entry.used.set(name, assertion);
+    const actual = toSnapshot(res, options);
+    const expected = entry.snapshots[name];
+
+    if (expected === undefined) {
+        if (process.env.CI && !isUpdateMode()) {
+            throw Error(`Snapshot '${name}' is missing in ${file}. Run with UPDATE_SNAPSHOTS=1 to write it.`);
+        }
+        entry.snapshots[name] = actual;
+        save(file, entry.snapshots);
+        return;
+    }
+    const expectedText = stringify(expected);
+    const actualText = stringify(actual);
+    if (expectedText === actualText) {
+        return;
+    }
+    if (isUpdateMode()) {
+        entry.snapshots[name] = actual;
+        save(file, entry.snapshots);
+        return;
+    }
+    throw Error(`Response does not match snapshot '${name}' in ${file}. Run with UPDATE_SNAPSHOTS=1 to update it.\n\n${lineDiff(expectedText, actualText)}`);
+}
+
+/**
+ * Lists the snapshots of the snapshot files used in this run that no test used.
+ * In update mode they are removed from their files.
+ * @returns The unused snapshots.
+ */
+export function reportUnusedSnapshots(): Array<{ file: string, name: string }> {
+    const unused: Array<{ file: string, name: string }> = [];
+    for (const [file, entry] of files) {
+        const names = Object.keys(entry.snapshots).filter(name => !entry.used.has(name));
+        unused.push(...names.map(name => ({ file, name })));
+        if (isUpdateMode() && names.length > 0) {
+            names.forEach(name => delete entry.snapshots[name]);
+            save(file, entry.snapshots);
+        }
+    }
+    return unused;
+}
+
+function load(file: string) {
+    let entry = files.get(file);
+    if (!entry) {
+        const snapshots = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+        entry = { snapshots, used: new Map<string, symbol>() };
+        files.set(file, entry);
+    }
+    return entry;
+}
+
+function save(file: string, snapshots: Record<string, ResponseSnapshot>): void {
+    const sorted = Object.fromEntries(Object.keys(snapshots).sort().map(name => [name, snapshots[name]]));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+/**
+ * Serializes a snapshot with sorted object keys, so key order doesn't count as a change.
+ */
+function stringify(value: unknown): string {
+    return JSON.stringify(value, (_key, item) => item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+        : item, 2);
+}
+
+/**
+ * Renders a line diff of two texts, with '-' for expected and '+' for received lines.
+ */
+function lineDiff(expected: string, actual: string): string {
+    const a = expected.split('\n');
+    const b = actual.split('\n');
+    // Longest common subsequence table, filled from the end.
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const lines = ['- Snapshot', '+ Received', ''];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push(`  ${a[i++]}`);
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push(`- ${a[i++]}`);
+        } else {
+            lines.push(`+ ${b[j++]}`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,78 @@
+import { ClientRequest, IncomingMessage } from 'http';
+import { Socket } from 'net';
+import { Request } from "superagent";
+
+/**
+ * The timing breakdown of a request, in milliseconds.
+ * Phases that didn't happen, e.g. DNS for an IP address or TLS for plain HTTP, are 0.
+ */
+export interface Timings {
+    /** Resolving the host name. */
+    dns: number;
+    /** Opening the TCP connection. */
+    tcp: number;
+    /** The TLS handshake. */
+    tls: number;
+    /** From the connection being ready to the first byte of the response. */
+    firstByte: number;
+    /** From the first to the last byte of the response. */
+    download: number;
+    /** From the start of the request to the last byte of the response. */
+    total: number;
+}
+
+export type TimingPhase = keyof Timings;
+
+/**
+ * Measures the timing breakdown of each attempt of a request; retries are measured again.
+ * @param req - The request, before it is sent.
+ * @param onTimings - Called with the timings once the response has been received, before assertions run.
+ */
+export function trackTimings(req: Request, onTimings: (timings: Timings) => void): void {
+    req.on('request', (sent: { req: ClientRequest }) => {
+        const start = now();
+        let lookup: number | undefined;
+        let connect: number | undefined;
+        let secureConnect: number | undefined;
+        const clientRequest = sent.req;
+        clientRequest.once('socket', (socket: Socket) => {
+            socket.once('lookup', () => lookup = now());
+            socket.once('connect', () => connect = now());
+            socket.once('secureConnect', () => secureConnect = now());
+        });
+        // Prepended, so the timings are complete before superagent handles the response and runs assertions.
+        clientRequest.prependOnceListener('response', (res: IncomingMessage) => {
+            const firstByte = now();
+            res.prependOnceListener('end', () => {
+                const end = now();
+                const ready = secureConnect ?? connect ?? start;
+                onTimings({
+                    dns: round(lookup !== undefined ? lookup - start : 0),
+                    tcp: round(connect !== undefined ? connect - (lookup ?? start) : 0),
+                    tls: round(secureConnect !== undefined && connect !== undefined ? secureConnect - connect : 0),
+                    firstByte: round(firstByte - ready),
+                    download: round(end - firstByte),
+                    total: round(end - start)
+                });
+            });
+        });
+    });
+}
+
+/**
+ * Formats timings on one line, for logs and failure messages.
+ * @param timings - The timings.
+ * @returns e.g. 'total 42.1 ms (dns 0 ms, tcp 0.4 ms, tls 0 ms, first byte 40.2 ms, download 1.5 ms)'.
+ */
+export function formatTimings(timings: Timings): string {
+    const { dns, tcp, tls, firstByte, download, total } = timings;
+    return `total ${total} ms (dns ${dns} ms, tcp ${tcp} ms, tls ${tls} ms, first byte ${firstByte} ms, download ${download} ms)`;
+}
+
+function now(): number {
+    return Number(process.hrtime.bigint()) / 1e6;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 10) / 10;
+}
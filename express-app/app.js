@@ -4,35 +4,106 @@ const dotenv = require("dotenv");
 
 dotenv.config()
 
-const { User } = require("./models");
+const { createUserRepository, MongoUserRepository } = require("./repositories");
+const { badRequest, notFound, unsupportedMediaType } = require("./errors");
+const { parseListQuery, buildLinkHeader } = require("./listQuery");
+const { etagOf, checkIfMatch, isNotModified } = require("./conditional");
+const { applyMergePatch, applyJsonPatch } = require("./patch");
+const { validateUser, USER_FIELDS } = require("./validation");
+const { authRouter, authenticate, requireRole } = require("./auth");
+const { receiveAvatar, findAvatar, saveAvatar, deleteAvatar, sendAvatar } = require("./avatars");
+const openApiDocument = require("./openapi.json");
+const {
+    asyncHandler,
+    validateObjectId,
+    validateUserBody,
+    notFoundHandler,
+    errorHandler,
+} = require("./middleware");
+
+const users = createUserRepository();
 
 const app = express();
 
-app.use(express.json());
+app.locals.users = users;
+
+/**
+ * Media types accepted by `PATCH /users/:id`.
+ */
+const MERGE_PATCH = "application/merge-patch+json";
+const JSON_PATCH = "application/json-patch+json";
+
+app.use(express.json({ type: ["application/json", MERGE_PATCH, JSON_PATCH] }));
+
+app.param("id", validateObjectId);
+
+/**
+ * `POST /auth/login` and `POST /auth/refresh` issue JWT access and refresh tokens (see `auth.js`).
+ */
+app.use("/auth", authRouter);
 
 /**
- * Retrieves all users from the database and returns them as a JSON response.
+ * Every `/users` route needs an access token; reads are open to any role, writes need `admin`.
+ */
+app.use("/users", authenticate);
+const adminOnly = requireRole("admin");
+
+/**
+ * Serves the OpenAPI 3.1 document describing the users API.
  *
- * @route GET /users
- * @returns {User[]} An array of all users in the database
+ * @route GET /openapi.json
+ * @returns {Object} The OpenAPI document.
  */
-app.get("/users", async (req, res) => {
-    const allUsers = await User.find();
-    return res.status(200).json(allUsers);
+app.get("/openapi.json", (req, res) => {
+    return res.status(200).json(openApiDocument);
 });
 
+/**
+ * Retrieves a page of users from the database and returns them as a JSON response.
+ *
+ * The total number of matching users is sent in the `X-Total-Count` header, and links to the
+ * first, previous, next and last pages in the RFC 8288 `Link` header.
+ *
+ * @route GET /users
+ * @param {number} [page=1] - The page to return.
+ * @param {number} [limit=20] - The number of users per page, at most 100.
+ * @param {string} [job] - Only return users with this job.
+ * @param {boolean} [isMarried] - Only return users that are (not) married.
+ * @param {number} [minAge] - Only return users of at least this age.
+ * @param {number} [maxAge] - Only return users of at most this age.
+ * @param {string} [sort] - Comma-separated fields to sort on, descending when prefixed with `-`.
+ * @returns {User[]} The users on the requested page.
+ * @throws 400 if a query parameter is invalid, 401 without a valid access token.
+ */
+app.get("/users", asyncHandler(async (req, res) => {
+    const { page, limit, filter, sort } = parseListQuery(req.query);
+    const { items, total } = await users.find({ filter, sort, skip: (page - 1) * limit, limit });
+    const lastPage = Math.max(1, Math.ceil(total / limit));
+    res.set("X-Total-Count", String(total));
+    res.set("Link", buildLinkHeader(req, page, lastPage));
+    return res.status(200).json(items);
+}));
+
 /**
  * Retrieves a single user from the database by its ID and returns it as a JSON response.
  *
+ * The user's version is sent in the `ETag` header; a request whose `If-None-Match` header
+ * matches it gets `304 Not Modified` without a body.
+ *
  * @route GET /users/:id
  * @param {string} id - The ID of the user to retrieve.
  * @returns {User} The user with the specified ID.
+ * @throws 400 if the ID is malformed, 401 without a valid access token, 404 if no user has the ID.
  */
-app.get("/users/:id", async (req, res) => {
+app.get("/users/:id", asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const user = await User.findById(id);
+    const user = await findUser(id);
+    res.set("ETag", etagOf(user));
+    if (isNotModified(req, user)) {
+        return res.status(304).end();
+    }
     return res.status(200).json(user);
-});
+}));
 
 /**
  * Creates a new user in the database and returns the created user as a JSON response.
@@ -40,40 +111,182 @@ app.get("/users/:id", async (req, res) => {
  * @route POST /users
  * @param {Object} req.body - The user data to create a new user.
  * @returns {User} The created user.
+ * @throws 400 if the body is not a valid user, 401 without a valid access token, 403 for non-admins.
  */
-app.post("/users", async (req, res) => {
-    const newUser = new User({ ...req.body });
-    const insertedUser = await newUser.save();
+app.post("/users", adminOnly, validateUserBody(), asyncHandler(async (req, res) => {
+    const insertedUser = await users.create(req.body);
+    res.set("ETag", etagOf(insertedUser));
     return res.status(201).json(insertedUser);
-});
+}));
 
 /**
- * Updates an existing user in the database by its ID and returns the updated user as a JSON response.
+ * Replaces an existing user in the database by its ID and returns the updated user as a JSON response.
+ * Fields left out of the body are reset to their defaults.
  *
  * @route PUT /users/:id
  * @param {string} id - The ID of the user to update.
- * @param {Object} req.body - The updated user data.
+ * @param {Object} req.body - The complete new user data. It may carry the user's `_id` and `__v`, as a `GET` returns them.
+ * @header If-Match - Optional ETag the user must still have.
  * @returns {User} The updated user.
+ * @throws 400 if the ID is malformed, the body is invalid or its `_id` or `__v` is not the user's,
+ * 401 without a valid access token, 403 for non-admins, 404 if no user has the ID,
+ * 412 if the user doesn't match `If-Match` or was changed concurrently.
  */
-app.put("/users/:id", async (req, res) => {
+app.put("/users/:id", adminOnly, asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await User.updateOne({ id }, req.body);
-    const updatedUser = await User.findById(id);
+    const user = await findUser(id);
+    const errors = validateUser(req.body, { user });
+    if (errors.length > 0) {
+        throw badRequest("The request body is not a valid user.", errors);
+    }
+    checkIfMatch(req, user);
+
+    const { _id, __v, ...fields } = req.body;
+    const updatedUser = await replaceUser(id, fields, user.__v);
+    res.set("ETag", etagOf(updatedUser));
     return res.status(200).json(updatedUser);
-});
+}));
+
+/**
+ * Partially updates an existing user in the database by its ID and returns the updated user as a JSON response.
+ *
+ * The body is either an RFC 7396 JSON Merge Patch (`Content-Type: application/merge-patch+json`)
+ * or an RFC 6902 JSON Patch (`Content-Type: application/json-patch+json`).
+ *
+ * @route PATCH /users/:id
+ * @param {string} id - The ID of the user to update.
+ * @param {Object|Object[]} req.body - The patch document.
+ * @header If-Match - Optional ETag the user must still have.
+ * @returns {User} The updated user.
+ * @throws 400 if the ID is malformed, the patch is malformed or the patched user is invalid,
+ * 401 without a valid access token, 403 for non-admins, 404 if no user has the ID,
+ * 409 if a JSON Patch can't be applied, 412 if the user doesn't match `If-Match` or was changed concurrently, 415 for other content types.
+ */
+app.patch("/users/:id", adminOnly, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const isMergePatch = req.is(MERGE_PATCH);
+    if (!isMergePatch && !req.is(JSON_PATCH)) {
+        res.set("Accept-Patch", `${MERGE_PATCH}, ${JSON_PATCH}`);
+        throw unsupportedMediaType(`Use ${MERGE_PATCH} or ${JSON_PATCH}.`);
+    }
+    const user = await findUser(id);
+    checkIfMatch(req, user);
+
+    const fields = Object.fromEntries(USER_FIELDS.filter((field) => field in user).map((field) => [field, user[field]]));
+    const patched = isMergePatch ? applyMergePatch(fields, req.body) : applyJsonPatch(fields, req.body);
+    const errors = validateUser(patched);
+    if (errors.length > 0) {
+        throw badRequest("The patched user is not valid.", errors);
+    }
+
+    const updatedUser = await replaceUser(id, patched, user.__v);
+    res.set("ETag", etagOf(updatedUser));
+    return res.status(200).json(updatedUser);
+}));
 
 /**
  * Deletes a user from the database by its ID and returns the deleted user as a JSON response.
+ * The user's avatar is deleted with it.
  *
  * @route DELETE /users/:id
  * @param {string} id - The ID of the user to delete.
+ * @header If-Match - Optional ETag the user must still have.
  * @returns {User} The deleted user.
+ * @throws 400 if the ID is malformed, 401 without a valid access token, 403 for non-admins,
+ * 404 if no user has the ID, 412 if the user doesn't match `If-Match` or was changed concurrently.
  */
-app.delete("/users/:id", async (req, res) => {
+app.delete("/users/:id", adminOnly, asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const deletedUser = await User.findByIdAndDelete(id);
+    let version;
+    if (req.get("If-Match") !== undefined) {
+        const user = await findUser(id);
+        checkIfMatch(req, user);
+        version = user.__v;
+    }
+    const deletedUser = await users.delete(id, version);
+    if (!deletedUser) {
+        throw notFound(`User '${id}' does not exist.`);
+    }
+    await deleteAvatar(id);
     return res.status(200).json(deletedUser);
-});
+}));
+
+/**
+ * Uploads or replaces a user's avatar, sent as the `avatar` field of a `multipart/form-data` body.
+ * PNG, JPEG, GIF and WebP images up to `AVATAR_MAX_BYTES` are accepted; they are stored on disk
+ * in `AVATAR_DIR`.
+ *
+ * @route PUT /users/:id/avatar
+ * @param {string} id - The ID of the user.
+ * @returns {Object} The avatar's `{ contentType, size, etag, updatedAt }`; `201` for the first avatar, `200` when it was replaced.
+ * @throws 400 if the ID or the body is malformed, 401 without a valid access token, 403 for non-admins,
+ * 404 if no user has the ID, 413 if the image is too large, 415 if it is not a supported image type.
+ */
+app.put("/users/:id/avatar", adminOnly, asyncHandler(async (req, res, next) => {
+    await findUser(req.params.id);
+    return next();
+}), receiveAvatar, asyncHandler(async (req, res) => {
+    const { metadata, created } = await saveAvatar(req.params.id, req.avatar);
+    res.set("ETag", metadata.etag);
+    return res.status(created ? 201 : 200).json(metadata);
+}));
+
+/**
+ * Streams a user's avatar with its `Content-Type`, `Content-Length` and `ETag`.
+ *
+ * A request whose `If-None-Match` header matches the ETag gets `304 Not Modified`, and a single
+ * byte range in the `Range` header gets `206 Partial Content` (see `sendAvatar`).
+ *
+ * @route GET /users/:id/avatar
+ * @param {string} id - The ID of the user.
+ * @returns {Buffer} The image, or the requested part of it.
+ * @throws 400 if the ID is malformed, 401 without a valid access token,
+ * 404 if no user has the ID or the user has no avatar, 416 if the range is not satisfiable.
+ */
+app.get("/users/:id/avatar", asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    await findUser(id);
+    const avatar = await findAvatar(id);
+    if (!avatar) {
+        throw notFound(`User '${id}' has no avatar.`);
+    }
+    return sendAvatar(req, res, id, avatar);
+}));
+
+/**
+ * @param {string} id - The ID of the user.
+ * @returns {Promise<Object>} The user.
+ * @throws {HttpError} `404 Not Found` if no user has the ID.
+ */
+async function findUser(id) {
+    const user = await users.findById(id);
+    if (!user) {
+        throw notFound(`User '${id}' does not exist.`);
+    }
+    return user;
+}
+
+/**
+ * @param {string} id - The ID of the user.
+ * @param {Object} data - The new user data.
+ * @param {number} version - The version the user was read at.
+ * @returns {Promise<Object>} The replaced user.
+ * @throws {HttpError} `404 Not Found` if the user was deleted in the meantime.
+ */
+async function replaceUser(id, data, version) {
+    const user = await users.replace(id, data, version);
+    if (!user) {
+        throw notFound(`User '${id}' does not exist.`);
+    }
+    return user;
+}
+
+app.use(notFoundHandler);
+
+/**
+ * Sends every error raised by the routes above as an RFC 7807 `application/problem+json` response.
+ */
+app.use(errorHandler);
 
 /**
  * Starts the Express.js server and connects to the MongoDB database.
@@ -84,7 +297,9 @@ app.delete("/users/:id", async (req, res) => {
  */
 const start = async () => {
     try {
-        // await mongoose.connect(process.env.MANGODB_CONNECTION_URL);
+        if (users instanceof MongoUserRepository) {
+            await mongoose.connect(process.env.MANGODB_CONNECTION_URL);
+        }
         app.listen(3000, () => console.log("Server started on port 3000"));
     } catch (error) {
         console.error(error);
@@ -92,4 +307,9 @@ const start = async () => {
     }
 };
 
-start();
\ No newline at end of file
+// Only bind a port when run directly (`node express-app/app.js`), so tests can import the app.
+if (require.main === module) {
+    start();
+}
+
+module.exports = app;
@@ -0,0 +1,219 @@
+const crypto = require("crypto");
+const express = require("express");
+const jwt = require("jsonwebtoken");
+const { badRequest, unauthorized, forbidden } = require("./errors");
+
+const REALM = "express-app";
+const ISSUER = "express-app";
+
+/**
+ * The signing key used when `JWT_SECRET` is not set. It changes on every start, so tokens
+ * don't survive a restart.
+ */
+const fallbackSecret = crypto.randomBytes(32).toString("hex");
+
+/**
+ * Reads the auth settings from the environment, when they are needed, so tests can change them.
+ *
+ * - `JWT_SECRET`: the HS256 signing key.
+ * - `JWT_ACCESS_TOKEN_TTL`, `JWT_REFRESH_TOKEN_TTL`: lifetimes in seconds or as e.g. `15m`, `7d`.
+ * - `AUTH_USERS`: the accounts, as `name:password:role` separated by commas.
+ *
+ * @returns {{ secret: string, accessTokenTtl: string|number, refreshTokenTtl: string|number, accounts: Object[] }}
+ */
+const authConfig = () => ({
+    secret: process.env.JWT_SECRET || fallbackSecret,
+    accessTokenTtl: parseTtl(process.env.JWT_ACCESS_TOKEN_TTL || "15m"),
+    refreshTokenTtl: parseTtl(process.env.JWT_REFRESH_TOKEN_TTL || "7d"),
+    accounts: (process.env.AUTH_USERS || "admin:admin-password:admin,user:user-password:user")
+        .split(",")
+        .filter(Boolean)
+        .map((entry) => {
+            const [username, password, role = "user"] = entry.trim().split(":");
+            return { username, password, roles: [role] };
+        }),
+});
+
+/**
+ * @param {string} ttl - A number of seconds or a duration such as `15m`.
+ * @returns {string|number} The lifetime as jsonwebtoken expects it.
+ */
+const parseTtl = (ttl) => (/^-?\d+$/.test(ttl) ? Number(ttl) : ttl);
+
+/**
+ * The ids (`jti`) of the refresh tokens that were issued and not used yet. A refresh token
+ * can be used once; refreshing issues a new one.
+ */
+const activeRefreshTokens = new Set();
+
+/**
+ * Signs an access token for an account.
+ *
+ * @param {{ username: string, roles: string[] }} account - The account.
+ * @param {string|number} [expiresIn] - The lifetime; the configured one by default. A negative number
+ * of seconds gives an expired token, e.g. for tests.
+ * @returns {string} The signed JWT.
+ */
+const signAccessToken = (account, expiresIn = authConfig().accessTokenTtl) =>
+    jwt.sign({ roles: account.roles, typ: "access" }, authConfig().secret, {
+        algorithm: "HS256",
+        subject: account.username,
+        issuer: ISSUER,
+        expiresIn,
+        jwtid: crypto.randomUUID(),
+    });
+
+/**
+ * Issues an access and a refresh token for an account.
+ *
+ * @param {{ username: string, roles: string[] }} account - The account.
+ * @returns {Object} The OAuth 2.0 style token response.
+ */
+const issueTokens = (account) => {
+    const config = authConfig();
+    const accessToken = signAccessToken(account, config.accessTokenTtl);
+    const jwtid = crypto.randomUUID();
+    const refreshToken = jwt.sign({ roles: account.roles, typ: "refresh" }, config.secret, {
+        algorithm: "HS256",
+        subject: account.username,
+        issuer: ISSUER,
+        expiresIn: config.refreshTokenTtl,
+        jwtid,
+    });
+    activeRefreshTokens.add(jwtid);
+    const { iat, exp } = jwt.decode(accessToken);
+    return {
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        token_type: "Bearer",
+        expires_in: exp - iat,
+    };
+};
+
+/**
+ * Verifies a token and checks its type.
+ *
+ * @param {string} token - The JWT.
+ * @param {string} type - `access` or `refresh`.
+ * @returns {Object} The claims of the token.
+ * @throws {Error} With a message for the client if the token is invalid, expired or of another type.
+ */
+const verifyToken = (token, type) => {
+    let claims;
+    try {
+        claims = jwt.verify(token, authConfig().secret, { algorithms: ["HS256"], issuer: ISSUER });
+    } catch (err) {
+        throw new Error(err instanceof jwt.TokenExpiredError ? `The ${type} token expired.` : `The ${type} token is invalid.`);
+    }
+    if (claims.typ !== type) {
+        throw new Error(`The ${type} token is invalid.`);
+    }
+    return claims;
+};
+
+/**
+ * @param {string} [error] - The RFC 6750 error code, e.g. `invalid_token`.
+ * @param {string} [description] - What is wrong with the token.
+ * @returns {string} A `WWW-Authenticate` Bearer challenge.
+ */
+const bearerChallenge = (error, description) =>
+    `Bearer realm="${REALM}"${error ? `, error="${error}", error_description="${description}"` : ""}`;
+
+/**
+ * Requires a valid access token in the `Authorization: Bearer` header and sets `req.auth`
+ * to `{ username, roles }`.
+ *
+ * @throws {HttpError} `401 Unauthorized` with a `WWW-Authenticate` challenge if the token is missing, invalid or expired.
+ */
+const authenticate = (req, res, next) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get("Authorization") || "");
+    if (!match) {
+        return next(unauthorized("An access token is required.", bearerChallenge()));
+    }
+    try {
+        const claims = verifyToken(match[1], "access");
+        req.auth = { username: claims.sub, roles: claims.roles || [] };
+        return next();
+    } catch (err) {
+        return next(unauthorized(err.message, bearerChallenge("invalid_token", err.message)));
+    }
+};
+
+/**
+ * Creates a middleware that requires the authenticated account to have a role. Use after `authenticate`.
+ *
+ * @param {string} role - The required role, e.g. `admin`.
+ * @returns {Function} The middleware.
+ * @throws {HttpError} `403 Forbidden` if the account doesn't have the role.
+ */
+const requireRole = (role) => (req, res, next) => {
+    if (!req.auth || !req.auth.roles.includes(role)) {
+        const detail = `The '${role}' role is required.`;
+        return next(forbidden(detail, bearerChallenge("insufficient_scope", detail)));
+    }
+    return next();
+};
+
+/**
+ * Compares two strings in constant time.
+ */
+const safeEqual = (a, b) => {
+    const hash = (value) => crypto.createHash("sha256").update(String(value)).digest();
+    return crypto.timingSafeEqual(hash(a), hash(b));
+};
+
+const authRouter = express.Router();
+
+/**
+ * Logs in with a user name and password and issues an access and a refresh token.
+ *
+ * @route POST /auth/login
+ * @param {Object} req.body - `{ username, password }`.
+ * @returns {Object} `{ access_token, refresh_token, token_type, expires_in }`.
+ * @throws 400 if the body is malformed, 401 if the credentials are wrong.
+ */
+authRouter.post("/login", (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== "string" || typeof password !== "string") {
+        throw badRequest("The body must have a 'username' and a 'password'.");
+    }
+    const account = authConfig().accounts.find((a) => a.username === username);
+    // The password is compared even for unknown users, so the response time doesn't reveal which users exist.
+    const valid = safeEqual(password, account ? account.password : fallbackSecret) && account !== undefined;
+    if (!valid) {
+        throw unauthorized("The user name or password is wrong.", bearerChallenge());
+    }
+    return res.status(200).set("Cache-Control", "no-store").json(issueTokens(account));
+});
+
+/**
+ * Exchanges a refresh token for new access and refresh tokens. Each refresh token can be used once.
+ *
+ * @route POST /auth/refresh
+ * @param {Object} req.body - `{ refresh_token }`.
+ * @returns {Object} `{ access_token, refresh_token, token_type, expires_in }`.
+ * @throws 400 if the body is malformed, 401 if the refresh token is invalid, expired or already used.
+ */
+authRouter.post("/refresh", (req, res) => {
+    const { refresh_token: refreshToken } = req.body || {};
+    if (typeof refreshToken !== "string") {
+        throw badRequest("The body must have a 'refresh_token'.");
+    }
+    let claims;
+    try {
+        claims = verifyToken(refreshToken, "refresh");
+    } catch (err) {
+        throw unauthorized(err.message, bearerChallenge("invalid_token", err.message));
+    }
+    if (!activeRefreshTokens.delete(claims.jti)) {
+        throw unauthorized("The refresh token was already used.", bearerChallenge("invalid_token", "The refresh token was already used."));
+    }
+    // The roles are read again, so a changed account takes effect on the next refresh.
+    const account = authConfig().accounts.find((a) => a.username === claims.sub);
+    if (!account) {
+        throw unauthorized("The account no longer exists.", bearerChallenge("invalid_token", "The account no longer exists."));
+    }
+    return res.status(200).set("Cache-Control", "no-store").json(issueTokens(account));
+});
+
+module.exports = { authRouter, authenticate, requireRole, signAccessToken, issueTokens };
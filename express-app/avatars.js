@@ -0,0 +1,271 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { pipeline } = require("stream/promises");
+const multer = require("multer");
+const { badRequest, notFound, payloadTooLarge, unsupportedMediaType, rangeNotSatisfiable } = require("./errors");
+
+/**
+ * The image types accepted as avatars, with the signature their files start with.
+ */
+const AVATAR_TYPES = {
+    "image/png": (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    "image/jpeg": (bytes) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+    "image/gif": (bytes) => /^GIF8[79]a$/.test(bytes.subarray(0, 6).toString("latin1")),
+    "image/webp": (bytes) => bytes.subarray(0, 4).toString("latin1") === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+/**
+ * Reads the avatar settings from the environment, when they are needed, so tests can change them.
+ *
+ * - `AVATAR_DIR`: the directory the avatars are stored in.
+ * - `AVATAR_MAX_BYTES`: the largest accepted avatar, 1 MiB by default.
+ *
+ * @returns {{ dir: string, maxBytes: number }}
+ */
+const avatarConfig = () => ({
+    dir: process.env.AVATAR_DIR || path.join(os.tmpdir(), "express-app-avatars"),
+    maxBytes: Number(process.env.AVATAR_MAX_BYTES || 1024 * 1024),
+});
+
+/**
+ * @param {string} id - The ID of the user.
+ * @returns {string} The path of the metadata of the user's avatar.
+ */
+const metadataPath = (id) => path.join(avatarConfig().dir, `${id}.json`);
+
+/**
+ * @param {Object} avatar - The avatar's metadata, see `findAvatar`.
+ * @returns {string} The path of the image the metadata refers to.
+ */
+const imagePath = (avatar) => path.join(avatarConfig().dir, avatar.file);
+
+/**
+ * @param {Buffer} bytes - The uploaded file.
+ * @returns {string|undefined} The image type the file's signature belongs to.
+ */
+const sniffImageType = (bytes) => Object.keys(AVATAR_TYPES).find((type) => AVATAR_TYPES[type](bytes));
+
+/**
+ * Receives the avatar from the `avatar` field of a `multipart/form-data` body and sets `req.avatar`
+ * to `{ buffer, contentType }`. The type is taken from the file's content, not from the type the
+ * client declared.
+ *
+ * @throws {HttpError} `400 Bad Request` if the body is malformed or has no or several files,
+ * `413 Content Too Large` if the file is larger than `AVATAR_MAX_BYTES`,
+ * `415 Unsupported Media Type` if the body is not multipart or the file is not a PNG, JPEG, GIF or WebP image.
+ */
+const receiveAvatar = (req, res, next) => {
+    if (!req.is("multipart/form-data")) {
+        return next(unsupportedMediaType("Upload the avatar as multipart/form-data in the 'avatar' field."));
+    }
+    const { maxBytes } = avatarConfig();
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes, files: 1 } }).single("avatar");
+    return upload(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            return next(err.code === "LIMIT_FILE_SIZE"
+                ? payloadTooLarge(`The avatar may be at most ${maxBytes} bytes.`)
+                : badRequest(`${err.message}${err.field ? ` ('${err.field}')` : ""}.`));
+        }
+        if (err) {
+            return next(err);
+        }
+        if (!req.file) {
+            return next(badRequest("The 'avatar' field with the image file is missing."));
+        }
+        const contentType = sniffImageType(req.file.buffer);
+        if (!contentType) {
+            return next(unsupportedMediaType(`The avatar must be one of ${Object.keys(AVATAR_TYPES).join(", ")}.`));
+        }
+        // Clients that don't know the type send application/octet-stream; a different image type is a mistake.
+        const declared = req.file.mimetype.toLowerCase();
+        if (declared !== contentType && declared !== "application/octet-stream") {
+            return next(unsupportedMediaType(`The avatar was declared as ${declared} but is ${contentType}.`));
+        }
+        req.avatar = { buffer: req.file.buffer, contentType };
+        return next();
+    });
+};
+
+/**
+ * @param {string} id - The ID of the user.
+ * @returns {Promise<Object|undefined>} `{ contentType, size, etag, updatedAt, file }` of the user's avatar, if it has one;
+ * `file` is the name of the image in `AVATAR_DIR`.
+ */
+const findAvatar = async (id) => {
+    try {
+        return JSON.parse(await fs.promises.readFile(metadataPath(id), "utf8"));
+    } catch (err) {
+        if (err.code === "ENOENT") {
+            return undefined;
+        }
+        throw err;
+    }
+};
+
+/**
+ * Stores a user's avatar, replacing the previous one.
+ *
+ * Each image is written under a name of its own, which the metadata refers to, and the metadata is
+ * written to a temporary file and renamed into place. Only that rename replaces the avatar, so readers
+ * never see a partly written avatar, nor an image with the metadata of another. The previous image is
+ * removed afterwards.
+ *
+ * @param {string} id - The ID of the user.
+ * @param {{ buffer: Buffer, contentType: string }} avatar - The image.
+ * @returns {Promise<{ metadata: Object, created: boolean }>} The stored avatar's `{ contentType, size, etag, updatedAt }`,
+ * and whether the user had none before.
+ */
+const saveAvatar = async (id, avatar) => {
+    const { dir } = avatarConfig();
+    await fs.promises.mkdir(dir, { recursive: true });
+    const previous = await findAvatar(id);
+    const metadata = {
+        contentType: avatar.contentType,
+        size: avatar.buffer.length,
+        etag: `"${crypto.createHash("sha256").update(avatar.buffer).digest("base64url")}"`,
+        updatedAt: new Date().toISOString(),
+    };
+    // A unique name rather than the content's hash: a concurrent upload of the same image
+    // would otherwise publish the file this one removes as the previous image.
+    const file = `${id}.${crypto.randomUUID()}`;
+    await fs.promises.writeFile(path.join(dir, file), avatar.buffer);
+    const tmp = `${metadataPath(id)}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify({ ...metadata, file }));
+    await fs.promises.rename(tmp, metadataPath(id));
+    if (previous) {
+        await fs.promises.rm(imagePath(previous), { force: true });
+    }
+    return { metadata, created: previous === undefined };
+};
+
+/**
+ * Removes a user's avatar, if it has one.
+ *
+ * @param {string} id - The ID of the user.
+ * @returns {Promise<void>}
+ */
+const deleteAvatar = async (id) => {
+    const avatar = await findAvatar(id);
+    await fs.promises.rm(metadataPath(id), { force: true });
+    if (avatar) {
+        await fs.promises.rm(imagePath(avatar), { force: true });
+    }
+};
+
+/**
+ * Opens the image of a user's avatar. When the image was removed since its metadata was read,
+ * because the avatar was replaced or deleted, the metadata is read again.
+ *
+ * @param {string} id - The ID of the user.
+ * @param {Object} avatar - The avatar's metadata, see `findAvatar`.
+ * @returns {Promise<{ avatar: Object, handle: fs.promises.FileHandle }|undefined>} The metadata of the
+ * opened image and its file handle, or `undefined` if the user has no avatar anymore.
+ */
+const openAvatar = async (id, avatar) => {
+    for (let current = avatar; current;) {
+        try {
+            return { avatar: current, handle: await fs.promises.open(imagePath(current)) };
+        } catch (err) {
+            if (err.code !== "ENOENT") {
+                throw err;
+            }
+        }
+        const next = await findAvatar(id);
+        // The same metadata without its image would be read again and again.
+        current = next && next.file !== current.file ? next : undefined;
+    }
+    return undefined;
+};
+
+/**
+ * Parses a `Range` header with a single byte range.
+ *
+ * @param {string} header - The `Range` header, e.g. `bytes=0-99`, `bytes=100-` or `bytes=-100`.
+ * @param {number} size - The size of the avatar.
+ * @returns {{ start: number, end: number }|null|undefined} The range, `null` if it is unsatisfiable,
+ * or `undefined` if the header is malformed or asks for several ranges and is ignored.
+ */
+const parseRange = (header, size) => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (match[1] === "" && match[2] === "")) {
+        return undefined;
+    }
+    if (match[1] === "") {
+        const suffix = Number(match[2]);
+        return suffix === 0 || size === 0 ? null : { start: Math.max(0, size - suffix), end: size - 1 };
+    }
+    const start = Number(match[1]);
+    const end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+    if (match[2] !== "" && Number(match[2]) < start) {
+        return undefined;
+    }
+    return start >= size ? null : { start, end };
+};
+
+/**
+ * Streams a user's avatar to the client.
+ *
+ * The avatar's ETag is sent in the `ETag` header; a request whose `If-None-Match` header matches it
+ * gets `304 Not Modified`. A single byte range in the `Range` header gets `206 Partial Content`,
+ * unless an `If-Range` header names another ETag, in which case the whole avatar is sent.
+ *
+ * The image is opened before the headers are sent, so they describe the bytes that are streamed
+ * even when the avatar is replaced meanwhile.
+ *
+ * @param {Object} req - The request.
+ * @param {Object} res - The response.
+ * @param {string} id - The ID of the user.
+ * @param {Object} metadata - The avatar's metadata, see `findAvatar`.
+ * @returns {Promise<void>} Settles when the avatar was sent.
+ * @throws {HttpError} `404 Not Found` if the avatar was deleted meanwhile,
+ * `416 Range Not Satisfiable` if the range starts after the end of the avatar.
+ */
+const sendAvatar = async (req, res, id, metadata) => {
+    const opened = await openAvatar(id, metadata);
+    if (!opened) {
+        throw notFound(`User '${id}' has no avatar.`);
+    }
+    const { avatar, handle } = opened;
+    try {
+        const ifNoneMatch = req.get("If-None-Match");
+        if (ifNoneMatch !== undefined) {
+            const tags = ifNoneMatch.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+            if (tags.includes("*") || tags.includes(avatar.etag)) {
+                res.set("ETag", avatar.etag);
+                await handle.close();
+                return void res.status(304).end();
+            }
+        }
+
+        const rangeHeader = req.get("Range");
+        const ifRange = req.get("If-Range");
+        const range = rangeHeader !== undefined && (ifRange === undefined || ifRange === avatar.etag)
+            ? parseRange(rangeHeader, avatar.size)
+            : undefined;
+        if (range === null) {
+            throw rangeNotSatisfiable(`The avatar has ${avatar.size} bytes.`, avatar.size);
+        }
+
+        res.set({ "ETag": avatar.etag, "Accept-Ranges": "bytes", "Content-Type": avatar.contentType });
+        const { start, end } = range || { start: 0, end: avatar.size - 1 };
+        if (range) {
+            res.status(206).set("Content-Range", `bytes ${start}-${end}/${avatar.size}`);
+        } else {
+            res.status(200);
+        }
+        res.set("Content-Length", String(end - start + 1));
+        if (req.method === "HEAD" || avatar.size === 0) {
+            await handle.close();
+            return void res.end();
+        }
+        // Headers are sent by now, so a read error can only abort the response. The stream closes the handle.
+        await pipeline(handle.createReadStream({ start, end }), res).catch((err) => res.destroy(err));
+    } catch (err) {
+        await handle.close();
+        throw err;
+    }
+};
+
+module.exports = { receiveAvatar, findAvatar, saveAvatar, deleteAvatar, sendAvatar };
@@ -0,0 +1,52 @@
+const { preconditionFailed } = require("./errors");
+
+/**
+ * @param {Object} user - The user.
+ * @returns {string} The strong ETag of the user, built from its document version `__v`.
+ */
+const etagOf = (user) => `"${user.__v}"`;
+
+/**
+ * @param {string} header - An `If-Match` or `If-None-Match` header.
+ * @returns {string[]} The entity tags listed in the header.
+ */
+const parseEtags = (header) => header.split(",").map((tag) => tag.trim()).filter(Boolean);
+
+/**
+ * Checks the `If-Match` header of a write request against the current version of a user.
+ * Requests without the header are allowed.
+ *
+ * @param {Object} req - The request.
+ * @param {Object} user - The current user.
+ * @throws {HttpError} `412 Precondition Failed` if the header doesn't match the user's ETag.
+ */
+const checkIfMatch = (req, user) => {
+    const header = req.get("If-Match");
+    if (header === undefined) {
+        return;
+    }
+    const etag = etagOf(user);
+    // If-Match uses the strong comparison, so weak tags never match.
+    const tags = parseEtags(header);
+    if (!tags.includes("*") && !tags.includes(etag)) {
+        throw preconditionFailed(`The user has changed; its current ETag is ${etag}.`);
+    }
+};
+
+/**
+ * @param {Object} req - The request.
+ * @param {Object} user - The current user.
+ * @returns {boolean} Whether the `If-None-Match` header matches the user's ETag, i.e. the client's copy is current.
+ */
+const isNotModified = (req, user) => {
+    const header = req.get("If-None-Match");
+    if (header === undefined) {
+        return false;
+    }
+    const etag = etagOf(user);
+    // If-None-Match uses the weak comparison.
+    const tags = parseEtags(header).map((tag) => tag.replace(/^W\//, ""));
+    return tags.includes("*") || tags.includes(etag);
+};
+
+module.exports = { etagOf, checkIfMatch, isNotModified };
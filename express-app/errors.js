@@ -0,0 +1,96 @@
+/**
+ * An error that maps to an HTTP status and is sent to the client as an RFC 7807 problem.
+ */
+class HttpError extends Error {
+    /**
+     * @param {number} status - The HTTP status code.
+     * @param {string} title - A short, human-readable summary of the problem type.
+     * @param {string} [detail] - An explanation specific to this occurrence of the problem.
+     * @param {Object} [extensions] - Additional members of the problem, e.g. `errors`.
+     * @param {Object} [headers] - Response headers sent with the problem, e.g. `WWW-Authenticate`.
+     */
+    constructor(status, title, detail, extensions = {}, headers = {}) {
+        super(detail || title);
+        this.name = "HttpError";
+        this.status = status;
+        this.title = title;
+        this.detail = detail;
+        this.extensions = extensions;
+        this.headers = headers;
+    }
+}
+
+/**
+ * @param {string} [detail] - What was wrong with the request.
+ * @param {Object[]} [errors] - The individual validation errors.
+ * @returns {HttpError} A `400 Bad Request` error.
+ */
+const badRequest = (detail, errors) =>
+    new HttpError(400, "Bad Request", detail, errors ? { errors } : {});
+
+/**
+ * @param {string} [detail] - Why the request is not authenticated.
+ * @param {string} challenge - The `WWW-Authenticate` challenge, e.g. `Bearer realm="express-app"`.
+ * @returns {HttpError} A `401 Unauthorized` error.
+ */
+const unauthorized = (detail, challenge) =>
+    new HttpError(401, "Unauthorized", detail, {}, { "WWW-Authenticate": challenge });
+
+/**
+ * @param {string} [detail] - Which permission is missing.
+ * @param {string} [challenge] - The `WWW-Authenticate` challenge, e.g. with `error="insufficient_scope"`.
+ * @returns {HttpError} A `403 Forbidden` error.
+ */
+const forbidden = (detail, challenge) =>
+    new HttpError(403, "Forbidden", detail, {}, challenge ? { "WWW-Authenticate": challenge } : {});
+
+/**
+ * @param {string} [detail] - What was not found.
+ * @returns {HttpError} A `404 Not Found` error.
+ */
+const notFound = (detail) => new HttpError(404, "Not Found", detail);
+
+/**
+ * @param {string} [detail] - Why the request conflicts with the current state of the resource.
+ * @returns {HttpError} A `409 Conflict` error.
+ */
+const conflict = (detail) => new HttpError(409, "Conflict", detail);
+
+/**
+ * @param {string} [detail] - Which precondition failed.
+ * @returns {HttpError} A `412 Precondition Failed` error.
+ */
+const preconditionFailed = (detail) => new HttpError(412, "Precondition Failed", detail);
+
+/**
+ * @param {string} [detail] - How large the payload may be.
+ * @returns {HttpError} A `413 Content Too Large` error.
+ */
+const payloadTooLarge = (detail) => new HttpError(413, "Content Too Large", detail);
+
+/**
+ * @param {string} [detail] - Which media types are supported.
+ * @returns {HttpError} A `415 Unsupported Media Type` error.
+ */
+const unsupportedMediaType = (detail) => new HttpError(415, "Unsupported Media Type", detail);
+
+/**
+ * @param {string} [detail] - Why the range can't be served.
+ * @param {number} size - The size of the representation, sent in the `Content-Range` header.
+ * @returns {HttpError} A `416 Range Not Satisfiable` error.
+ */
+const rangeNotSatisfiable = (detail, size) =>
+    new HttpError(416, "Range Not Satisfiable", detail, {}, { "Content-Range": `bytes */${size}` });
+
+module.exports = {
+    HttpError,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    preconditionFailed,
+    payloadTooLarge,
+    unsupportedMediaType,
+    rangeNotSatisfiable,
+};
@@ -0,0 +1,121 @@
+const { badRequest } = require("./errors");
+const { USER_FIELDS } = require("./validation");
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * The fields `GET /users` can be sorted on.
+ */
+const SORT_FIELDS = [...USER_FIELDS, "_id"];
+
+/**
+ * @param {*} value - The query parameter.
+ * @returns {number|undefined} The value as an integer, or `undefined` if it isn't one.
+ */
+const toInteger = (value) => (/^-?\d+$/.test(value) ? Number(value) : undefined);
+
+/**
+ * @param {*} value - The query parameter.
+ * @returns {number|undefined} The value as a number, or `undefined` if it isn't one.
+ */
+const toNumber = (value) => (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : undefined);
+
+/**
+ * Parses and validates the paging, filter and sort parameters of `GET /users`.
+ *
+ * - `page` (default 1) and `limit` (default 20, at most 100)
+ * - `job`, `isMarried` (`true`/`false`), `minAge` and `maxAge` filters
+ * - `sort`: comma-separated fields, descending when prefixed with `-`, e.g. `sort=-age,name`
+ *
+ * @param {Object} query - The parsed query string, `req.query`.
+ * @returns {{ page: number, limit: number, filter: Object, sort: Array<[string, 1|-1]> }} The list query.
+ * @throws {HttpError} `400 Bad Request` listing every invalid parameter.
+ */
+const parseListQuery = (query) => {
+    const errors = [];
+    const filter = {};
+
+    const page = query.page === undefined ? 1 : toInteger(query.page);
+    if (page === undefined || page < 1) {
+        errors.push({ field: "page", message: "`page` must be an integer of at least 1." });
+    }
+    const limit = query.limit === undefined ? DEFAULT_LIMIT : toInteger(query.limit);
+    if (limit === undefined || limit < 1 || limit > MAX_LIMIT) {
+        errors.push({ field: "limit", message: `\`limit\` must be an integer between 1 and ${MAX_LIMIT}.` });
+    }
+
+    if (query.job !== undefined) {
+        if (typeof query.job !== "string") {
+            errors.push({ field: "job", message: "`job` must be given once." });
+        } else {
+            filter.job = query.job;
+        }
+    }
+    if (query.isMarried !== undefined) {
+        if (query.isMarried !== "true" && query.isMarried !== "false") {
+            errors.push({ field: "isMarried", message: "`isMarried` must be `true` or `false`." });
+        } else {
+            filter.isMarried = query.isMarried === "true";
+        }
+    }
+    for (const field of ["minAge", "maxAge"]) {
+        if (query[field] !== undefined) {
+            const value = toNumber(query[field]);
+            if (value === undefined) {
+                errors.push({ field, message: `\`${field}\` must be a number.` });
+            } else {
+                filter[field] = value;
+            }
+        }
+    }
+
+    const sort = [];
+    if (query.sort !== undefined) {
+        const fields = typeof query.sort === "string" ? query.sort.split(",") : [];
+        if (fields.length === 0) {
+            errors.push({ field: "sort", message: "`sort` must be given once." });
+        }
+        for (const entry of fields) {
+            const descending = entry.startsWith("-");
+            const field = descending ? entry.slice(1) : entry;
+            if (!SORT_FIELDS.includes(field)) {
+                errors.push({ field: "sort", message: `Cannot sort on \`${field}\`. Use one of ${SORT_FIELDS.join(", ")}.` });
+            } else {
+                sort.push([field, descending ? -1 : 1]);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw badRequest("The query parameters are not valid.", errors);
+    }
+    return { page, limit, filter, sort };
+};
+
+/**
+ * Builds an RFC 8288 `Link` header with `first`, `prev`, `next` and `last` links to the pages of a list.
+ *
+ * @param {Object} req - The request, whose path and query are kept in the links.
+ * @param {number} page - The current page.
+ * @param {number} lastPage - The last page.
+ * @returns {string} The `Link` header value.
+ */
+const buildLinkHeader = (req, page, lastPage) => {
+    const link = (target, rel) => {
+        const params = new URLSearchParams(req.query);
+        params.set("page", String(target));
+        return `<${req.baseUrl}${req.path}?${params}>; rel="${rel}"`;
+    };
+    const links = [link(1, "first")];
+    if (page > 1) {
+        links.push(link(Math.min(page - 1, lastPage), "prev"));
+    }
+    if (page < lastPage) {
+        links.push(link(page + 1, "next"));
+    }
+    links.push(link(lastPage, "last"));
+    return links.join(", ");
+};
+
+module.exports = { parseListQuery, buildLinkHeader, SORT_FIELDS };
@@ -0,0 +1,100 @@
+const { STATUS_CODES } = require("http");
+const mongoose = require("mongoose");
+const { HttpError, badRequest, notFound, preconditionFailed } = require("./errors");
+const { validateUser } = require("./validation");
+
+/**
+ * Wraps an async route handler so that a rejected promise is passed to the error middleware.
+ *
+ * @param {Function} handler - The async route handler.
+ * @returns {Function} The wrapped route handler.
+ */
+const asyncHandler = (handler) => (req, res, next) =>
+    Promise.resolve(handler(req, res, next)).catch(next);
+
+/**
+ * Rejects an `:id` route parameter that is not a valid ObjectId. Used with `app.param`.
+ */
+const validateObjectId = (req, res, next, id) => {
+    if (!mongoose.isValidObjectId(id)) {
+        return next(badRequest(`'${id}' is not a valid user id.`));
+    }
+    return next();
+};
+
+/**
+ * Creates a middleware that validates the request body against `UserSchema`.
+ *
+ * @param {Object} [options]
+ * @param {boolean} [options.partial=false] - Whether required fields may be left out.
+ * @returns {Function} The validation middleware.
+ */
+const validateUserBody = (options) => (req, res, next) => {
+    const errors = validateUser(req.body, options);
+    if (errors.length > 0) {
+        return next(badRequest("The request body is not a valid user.", errors));
+    }
+    return next();
+};
+
+/**
+ * Answers requests that no route matched with a `404` problem.
+ */
+const notFoundHandler = (req, res, next) => {
+    next(notFound(`No route for ${req.method} ${req.path}.`));
+};
+
+/**
+ * Converts an error to an RFC 7807 problem.
+ *
+ * @param {Error} err - The error.
+ * @returns {HttpError} The error as an `HttpError`.
+ */
+const toHttpError = (err) => {
+    if (err instanceof HttpError) {
+        return err;
+    }
+    if (err instanceof mongoose.Error.ValidationError) {
+        const errors = Object.values(err.errors).map((e) => ({ field: e.path, message: e.message }));
+        return badRequest("The request body is not a valid user.", errors);
+    }
+    if (err instanceof mongoose.Error.VersionError) {
+        return preconditionFailed("The user was changed by another request.");
+    }
+    if (err instanceof mongoose.Error.CastError) {
+        return badRequest(`'${err.value}' is not a valid ${err.kind}.`);
+    }
+    // Errors raised by express.json(), e.g. malformed JSON or a body that is too large.
+    const status = err.status || err.statusCode;
+    if (status >= 400 && status < 500) {
+        return new HttpError(status, STATUS_CODES[status], err.message);
+    }
+    return new HttpError(500, STATUS_CODES[500], "An unexpected error occurred.");
+};
+
+/**
+ * Central error middleware: sends every error as an `application/problem+json` response.
+ */
+const errorHandler = (err, req, res, next) => {
+    if (res.headersSent) {
+        return next(err);
+    }
+    const problem = toHttpError(err);
+    if (problem.status >= 500) {
+        console.error(err);
+    }
+    return res
+        .status(problem.status)
+        .set(problem.headers || {})
+        .type("application/problem+json")
+        .json({
+            type: "about:blank",
+            title: problem.title,
+            status: problem.status,
+            detail: problem.detail,
+            instance: req.originalUrl,
+            ...problem.extensions,
+        });
+};
+
+module.exports = { asyncHandler, validateObjectId, validateUserBody, notFoundHandler, errorHandler };
@@ -31,4 +31,4 @@ const UserSchema = new mongoose.Schema({
 
 const User = mongoose.model("User", UserSchema);
 
-module.exports = { User };
\ No newline at end of file
+module.exports = { User, UserSchema };
\ No newline at end of file
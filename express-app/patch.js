@@ -0,0 +1,204 @@
+const { badRequest, conflict } = require("./errors");
+
+/**
+ * @param {*} value - Any JSON value.
+ * @returns {boolean} Whether the value is a JSON object (not an array or null).
+ */
+const isObject = (value) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * @param {*} a - A JSON value.
+ * @param {*} b - Another JSON value.
+ * @returns {boolean} Whether the values are equal, ignoring the order of object members.
+ */
+const deepEqual = (a, b) => {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+    }
+    return a === b;
+};
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch: members set to `null` are removed, objects are merged
+ * recursively and every other value replaces the target's value.
+ *
+ * @param {*} target - The document to patch. It is not modified.
+ * @param {*} patch - The merge patch.
+ * @returns {*} The patched document.
+ */
+const applyMergePatch = (target, patch) => {
+    if (!isObject(patch)) {
+        return patch;
+    }
+    const result = isObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = applyMergePatch(result[key], value);
+        }
+    }
+    return result;
+};
+
+/**
+ * @param {string} pointer - An RFC 6901 JSON Pointer, e.g. `/name`.
+ * @returns {string[]} The unescaped reference tokens.
+ */
+const parsePointer = (pointer) => {
+    if (typeof pointer !== "string" || (pointer !== "" && !pointer.startsWith("/"))) {
+        throw badRequest(`'${pointer}' is not a valid JSON Pointer.`);
+    }
+    return pointer === "" ? [] : pointer.slice(1).split("/").map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+/**
+ * Resolves the parent container of the value a pointer refers to.
+ *
+ * @param {*} document - The document.
+ * @param {string} pointer - The JSON Pointer.
+ * @returns {{ parent: Object|Array, key: string }} The parent and the last reference token.
+ */
+const resolveParent = (document, pointer) => {
+    const tokens = parsePointer(pointer);
+    const key = tokens.pop();
+    let parent = document;
+    for (const token of tokens) {
+        if (parent === null || typeof parent !== "object" || !(token in parent)) {
+            throw conflict(`Path '${pointer}' does not exist.`);
+        }
+        parent = parent[token];
+    }
+    if (parent === null || typeof parent !== "object") {
+        throw conflict(`Path '${pointer}' does not exist.`);
+    }
+    return { parent, key };
+};
+
+/**
+ * @returns {*} The value the pointer refers to.
+ */
+const getValue = (document, pointer) => {
+    if (pointer === "") {
+        return document;
+    }
+    const { parent, key } = resolveParent(document, pointer);
+    if (!(key in parent)) {
+        throw conflict(`Path '${pointer}' does not exist.`);
+    }
+    return parent[key];
+};
+
+/**
+ * Adds a value at the pointer, inserting into arrays and replacing object members.
+ * @returns {*} The document, which is only a new value when the pointer is the root.
+ */
+const addValue = (document, pointer, value) => {
+    if (pointer === "") {
+        return value;
+    }
+    const { parent, key } = resolveParent(document, pointer);
+    if (Array.isArray(parent)) {
+        const index = key === "-" ? parent.length : Number(key);
+        if ((key !== "-" && !/^(0|[1-9]\d*)$/.test(key)) || index > parent.length) {
+            throw conflict(`Path '${pointer}' is not a valid array index.`);
+        }
+        parent.splice(index, 0, value);
+    } else {
+        parent[key] = value;
+    }
+    return document;
+};
+
+/**
+ * Removes the value the pointer refers to.
+ * @returns {*} The document.
+ */
+const removeValue = (document, pointer) => {
+    if (pointer === "") {
+        throw conflict("The whole document cannot be removed.");
+    }
+    const { parent, key } = resolveParent(document, pointer);
+    if (!(key in parent)) {
+        throw conflict(`Path '${pointer}' does not exist.`);
+    }
+    if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+    } else {
+        delete parent[key];
+    }
+    return document;
+};
+
+/**
+ * Applies an RFC 6902 JSON Patch, supporting the `add`, `remove`, `replace`, `move`, `copy` and `test` operations.
+ *
+ * @param {*} target - The document to patch. It is not modified.
+ * @param {Object[]} operations - The patch operations.
+ * @returns {*} The patched document.
+ * @throws {HttpError} `400 Bad Request` for a malformed patch, `409 Conflict` if it can't be applied.
+ */
+const applyJsonPatch = (target, operations) => {
+    if (!Array.isArray(operations)) {
+        throw badRequest("A JSON Patch must be an array of operations.");
+    }
+    let document = JSON.parse(JSON.stringify(target));
+    operations.forEach((operation, index) => {
+        if (!isObject(operation) || typeof operation.path !== "string") {
+            throw badRequest(`Operation ${index} must be an object with a 'path'.`);
+        }
+        const { op, path, from } = operation;
+        const requireValue = () => {
+            if (!("value" in operation)) {
+                throw badRequest(`Operation ${index} ('${op}') requires a 'value'.`);
+            }
+            return JSON.parse(JSON.stringify(operation.value));
+        };
+        const requireFrom = () => {
+            if (typeof from !== "string") {
+                throw badRequest(`Operation ${index} ('${op}') requires a 'from'.`);
+            }
+            return from;
+        };
+        switch (op) {
+            case "add":
+                document = addValue(document, path, requireValue());
+                break;
+            case "remove":
+                document = removeValue(document, path);
+                break;
+            case "replace":
+                getValue(document, path);
+                document = addValue(path === "" ? document : removeValue(document, path), path, requireValue());
+                break;
+            case "move": {
+                const source = requireFrom();
+                if (path.startsWith(`${source}/`)) {
+                    throw conflict(`Cannot move '${source}' into one of its children.`);
+                }
+                const value = getValue(document, source);
+                document = addValue(removeValue(document, source), path, value);
+                break;
+            }
+            case "copy": {
+                const value = JSON.parse(JSON.stringify(getValue(document, requireFrom())));
+                document = addValue(document, path, value);
+                break;
+            }
+            case "test":
+                if (!deepEqual(getValue(document, path), requireValue())) {
+                    throw conflict(`Test of '${path}' failed.`);
+                }
+                break;
+            default:
+                throw badRequest(`Operation ${index} has an unknown 'op' '${op}'.`);
+        }
+    });
+    return document;
+};
+
+module.exports = { applyMergePatch, applyJsonPatch };
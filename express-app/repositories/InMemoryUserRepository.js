@@ -0,0 +1,136 @@
+const mongoose = require("mongoose");
+const { User } = require("../models");
+
+/**
+ * User repository that keeps users in memory, for running the app without MongoDB.
+ *
+ * Documents are built and validated with the mongoose `User` model, so ids, required fields
+ * and defaults behave exactly as they do with `MongoUserRepository`.
+ */
+class InMemoryUserRepository {
+    constructor() {
+        /** @type {Map<string, Object>} */
+        this.users = new Map();
+    }
+
+    async find({ filter = {}, sort = [], skip = 0, limit } = {}) {
+        const matching = [...this.users.values()].filter((user) => matches(user, filter));
+        if (sort.length > 0) {
+            const keys = [...sort, ["_id", 1]];
+            matching.sort((a, b) => {
+                for (const [field, direction] of keys) {
+                    const order = compare(a[field], b[field]);
+                    if (order !== 0) {
+                        return order * direction;
+                    }
+                }
+                return 0;
+            });
+        }
+        const end = limit === undefined ? undefined : skip + limit;
+        return { items: matching.slice(skip, end).map(copy), total: matching.length };
+    }
+
+    async findById(id) {
+        castId(id);
+        const user = this.users.get(String(id));
+        return user ? copy(user) : null;
+    }
+
+    async create(data) {
+        const newUser = new User({ ...data });
+        await newUser.validate();
+        const user = { ...newUser.toObject(), __v: 0 };
+        this.users.set(String(user._id), user);
+        return copy(user);
+    }
+
+    async replace(id, data, version) {
+        castId(id);
+        const existing = this.users.get(String(id));
+        if (!existing) {
+            return null;
+        }
+        const replacement = new User({ ...data, _id: existing._id });
+        await replacement.validate();
+        if (existing.__v !== version) {
+            throw new mongoose.Error.VersionError(replacement, version, Object.keys(data));
+        }
+        const user = { ...replacement.toObject(), __v: version + 1 };
+        this.users.set(String(id), user);
+        return copy(user);
+    }
+
+    async delete(id, version) {
+        castId(id);
+        const user = this.users.get(String(id));
+        if (!user) {
+            return null;
+        }
+        if (version !== undefined && user.__v !== version) {
+            throw new mongoose.Error.VersionError(user, version, []);
+        }
+        this.users.delete(String(id));
+        return copy(user);
+    }
+
+    /**
+     * Removes all users. Meant for resetting state between tests.
+     */
+    clear() {
+        this.users.clear();
+    }
+}
+
+/**
+ * Throws the same `CastError` mongoose raises for an id that is not a valid ObjectId.
+ * @param {string} id - The ID to check.
+ */
+function castId(id) {
+    if (!mongoose.isValidObjectId(id)) {
+        throw new mongoose.Error.CastError("ObjectId", id, "_id");
+    }
+}
+
+/**
+ * @param {Object} user - The stored user.
+ * @param {Object} filter - The list filter.
+ * @returns {boolean} Whether the user matches the filter, as the equivalent MongoDB query would.
+ */
+function matches(user, { job, isMarried, minAge, maxAge }) {
+    return (job === undefined || user.job === job)
+        && (isMarried === undefined || user.isMarried === isMarried)
+        && (minAge === undefined || user.age >= minAge)
+        && (maxAge === undefined || user.age <= maxAge);
+}
+
+/**
+ * Compares two field values in MongoDB sort order for the types of `UserSchema`.
+ * @returns {number} A negative number, zero or a positive number.
+ */
+function compare(a, b) {
+    if (a === b) {
+        return 0;
+    }
+    // MongoDB sorts missing values and null before everything else.
+    if (a === undefined || a === null) {
+        return -1;
+    }
+    if (b === undefined || b === null) {
+        return 1;
+    }
+    if (a instanceof mongoose.Types.ObjectId) {
+        return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * @param {Object} user - The stored user.
+ * @returns {Object} A copy, so callers can't modify the stored user.
+ */
+function copy(user) {
+    return { ...user };
+}
+
+module.exports = { InMemoryUserRepository };
@@ -0,0 +1,113 @@
+const mongoose = require("mongoose");
+const { User } = require("../models");
+
+/**
+ * User repository backed by the mongoose `User` model.
+ */
+class MongoUserRepository {
+    /**
+     * @param {Object} [query]
+     * @param {Object} [query.filter] - `job`, `isMarried`, `minAge` and `maxAge` to match.
+     * @param {Array<[string, 1|-1]>} [query.sort] - The fields to sort on, in order.
+     * @param {number} [query.skip] - The number of matching users to skip.
+     * @param {number} [query.limit] - The maximum number of users to return.
+     * @returns {Promise<{ items: Object[], total: number }>} The page of users and the number of matching users.
+     */
+    async find({ filter = {}, sort = [], skip = 0, limit } = {}) {
+        const conditions = toConditions(filter);
+        let cursor = User.find(conditions).skip(skip);
+        if (sort.length > 0) {
+            // `_id` breaks ties, so pages don't overlap when sorting on fields with equal values.
+            cursor = cursor.sort([...sort, ["_id", 1]]);
+        }
+        if (limit !== undefined) {
+            cursor = cursor.limit(limit);
+        }
+        const [items, total] = await Promise.all([cursor, User.countDocuments(conditions)]);
+        return { items, total };
+    }
+
+    /**
+     * @param {string} id - The ID of the user.
+     * @returns {Promise<Object|null>} The user, or `null` when no user has the ID.
+     */
+    async findById(id) {
+        return User.findById(id);
+    }
+
+    /**
+     * @param {Object} data - The user data.
+     * @returns {Promise<Object>} The created user.
+     */
+    async create(data) {
+        const newUser = new User({ ...data });
+        return newUser.save();
+    }
+
+    /**
+     * Replaces a user, provided it is still at the expected version. The version is incremented.
+     *
+     * @param {string} id - The ID of the user.
+     * @param {Object} data - The new user data.
+     * @param {number} version - The version `__v` the user is expected to be at.
+     * @returns {Promise<Object|null>} The replaced user, or `null` when no user has the ID.
+     * @throws {mongoose.Error.VersionError} If the user is at a different version.
+     */
+    async replace(id, data, version) {
+        const replacement = new User({ ...data, _id: id });
+        await replacement.validate();
+        const replaced = await User.findOneAndReplace(
+            { _id: id, __v: version },
+            { ...replacement.toObject(), __v: version + 1 },
+            { new: true }
+        );
+        if (!replaced && await User.exists({ _id: id })) {
+            throw new mongoose.Error.VersionError(replacement, version, Object.keys(data));
+        }
+        return replaced;
+    }
+
+    /**
+     * @param {string} id - The ID of the user.
+     * @param {number} [version] - The version `__v` the user is expected to be at, if any.
+     * @returns {Promise<Object|null>} The deleted user, or `null` when no user has the ID.
+     * @throws {mongoose.Error.VersionError} If the user is at a different version.
+     */
+    async delete(id, version) {
+        if (version === undefined) {
+            return User.findByIdAndDelete(id);
+        }
+        const deleted = await User.findOneAndDelete({ _id: id, __v: version });
+        if (!deleted && await User.exists({ _id: id })) {
+            throw new mongoose.Error.VersionError({ _id: id }, version, []);
+        }
+        return deleted;
+    }
+}
+
+
+/**
+ * @param {Object} filter - The list filter.
+ * @returns {Object} The equivalent MongoDB query conditions.
+ */
+function toConditions({ job, isMarried, minAge, maxAge }) {
+    const conditions = {};
+    if (job !== undefined) {
+        conditions.job = job;
+    }
+    if (isMarried !== undefined) {
+        conditions.isMarried = isMarried;
+    }
+    if (minAge !== undefined || maxAge !== undefined) {
+        conditions.age = {};
+        if (minAge !== undefined) {
+            conditions.age.$gte = minAge;
+        }
+        if (maxAge !== undefined) {
+            conditions.age.$lte = maxAge;
+        }
+    }
+    return conditions;
+}
+
+module.exports = { MongoUserRepository };
@@ -0,0 +1,24 @@
+const { MongoUserRepository } = require("./MongoUserRepository");
+const { InMemoryUserRepository } = require("./InMemoryUserRepository");
+
+/**
+ * Creates the user repository selected by the `USER_REPOSITORY` environment variable.
+ *
+ * - `mongo`: users are stored in MongoDB through the `User` model.
+ * - `memory` (default): users are kept in memory, no database is needed.
+ *
+ * @param {string} [type] - Overrides the environment variable.
+ * @returns {MongoUserRepository|InMemoryUserRepository} The user repository.
+ */
+const createUserRepository = (type = process.env.USER_REPOSITORY || "memory") => {
+    switch (type) {
+        case "mongo":
+            return new MongoUserRepository();
+        case "memory":
+            return new InMemoryUserRepository();
+        default:
+            throw new Error(`Unknown USER_REPOSITORY '${type}'. Use 'mongo' or 'memory'.`);
+    }
+};
+
+module.exports = { createUserRepository, MongoUserRepository, InMemoryUserRepository };
@@ -0,0 +1,67 @@
+const { UserSchema } = require("./models");
+
+/**
+ * Type checks for the schema types used by `UserSchema`. Values are checked as sent,
+ * without mongoose's casting, so `"30"` is not accepted for a Number.
+ */
+const TYPE_CHECKS = {
+    String: (value) => typeof value === "string",
+    Number: (value) => typeof value === "number" && Number.isFinite(value),
+    Boolean: (value) => typeof value === "boolean",
+};
+
+/**
+ * The fields a client may send for a user: every schema path except `_id` and `__v`.
+ */
+const USER_FIELDS = Object.keys(UserSchema.paths).filter((path) => !path.startsWith("_"));
+
+/**
+ * Checks for the fields a user's body may carry over from the user it replaces.
+ */
+const IDENTITY_FIELDS = {
+    _id: (value, user) => typeof value === "string" && value === String(user._id),
+    __v: (value, user) => value === user.__v,
+};
+
+/**
+ * Validates a request body against `UserSchema`.
+ *
+ * @param {*} body - The request body.
+ * @param {Object} [options]
+ * @param {boolean} [options.partial=false] - Whether required fields may be left out.
+ * @param {Object} [options.user] - The user the body replaces. Its `_id` and `__v` may be sent back
+ * with the body, as a `GET` returns them, but no others.
+ * @returns {{ field: string, message: string }[]} The validation errors, empty when the body is valid.
+ */
+const validateUser = (body, { partial = false, user } = {}) => {
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+        return [{ field: "", message: "Request body must be a JSON object." }];
+    }
+
+    const errors = [];
+    for (const field of USER_FIELDS) {
+        const schemaType = UserSchema.path(field);
+        const value = body[field];
+        if (value === undefined || value === null) {
+            if (schemaType.isRequired && (value === null || !partial)) {
+                errors.push({ field, message: `Path \`${field}\` is required.` });
+            }
+            continue;
+        }
+        if (!TYPE_CHECKS[schemaType.instance](value)) {
+            errors.push({ field, message: `Path \`${field}\` must be a ${schemaType.instance}.` });
+        }
+    }
+    for (const field of Object.keys(body)) {
+        if (user && field in IDENTITY_FIELDS) {
+            if (!IDENTITY_FIELDS[field](body[field], user)) {
+                errors.push({ field, message: `Path \`${field}\` must be left out or match the user.` });
+            }
+        } else if (!USER_FIELDS.includes(field)) {
+            errors.push({ field, message: `Path \`${field}\` is not allowed.` });
+        }
+    }
+    return errors;
+};
+
+module.exports = { validateUser, USER_FIELDS };
@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { digestResponse, hmacSignature } from "../api-test-framework/Auth";
+
+/**
+ * Options of the stand-in auth server.
+ */
+export interface AuthServerOptions {
+    /** OAuth2 clients by id, with their secrets. Defaults to { 'test-client': 'test-secret' }. */
+    clients?: Record<string, string>;
+    /** Users by name, with their passwords, for the password grant and Digest. Defaults to { user: 'password' }. */
+    users?: Record<string, string>;
+    /** How long access tokens are valid, in seconds. Defaults to 3600. */
+    tokenLifetimeSeconds?: number;
+    /** The Digest algorithm the server asks for. Defaults to 'SHA-256'. */
+    digestAlgorithm?: 'MD5' | 'MD5-sess' | 'SHA-256' | 'SHA-256-sess';
+    /** HMAC secrets by key id. Defaults to { 'test-key': 'test-secret' }. */
+    hmacKeys?: Record<string, string>;
+    /** How far the timestamp of a signed request may be off, in seconds. Defaults to 300. */
+    hmacMaxSkewSeconds?: number;
+    /** Valid API keys, accepted in the X-API-Key header or the api_key query parameter. Defaults to ['test-api-key']. */
+    apiKeys?: string[];
+}
+
+/**
+ * A request to the token endpoint.
+ */
+export interface TokenRequest {
+    grantType: string;
+    clientId: string;
+    status: number;
+}
+
+interface IssuedToken {
+    subject: string;
+    expiresAt: number;
+}
+
+const REALM = 'auth-server';
+
+/**
+ * A local stand-in for an authorization server and the APIs it protects, to test the auth providers
+ * of the framework without a real identity provider:
+ * - `POST /oauth/token`: the client_credentials, password and refresh_token grants, with the client
+ *   authenticated by a Basic header or `client_id` and `client_secret` in the form body.
+ * - `/bearer/*`, `/digest/*`, `/hmac/*` and `/api-key/*`: any method and path, protected by a bearer token,
+ *   Digest (RFC 7616, qop 'auth' and 'auth-int'), HMAC signing (see `hmacSignature`) and an API key.
+ *   They answer 200 with the authenticated subject, or 401 with a WWW-Authenticate challenge.
+ * e.g.
+ * const server = new AuthServer({ tokenLifetimeSeconds: 2 });
+ * const url = await server.listen();
+ * client.setAuthProvider(new OAuth2Auth({ grant: 'client_credentials', tokenUrl: `${url}/oauth/token`, clientId: 'test-client', clientSecret: 'test-secret' }));
+ */
+export class AuthServer {
+
+    private readonly _app: Express;
+    private readonly _options: Required<AuthServerOptions>;
+    private readonly _accessTokens = new Map<string, IssuedToken>();
+    private readonly _refreshTokens = new Map<string, string>();
+    private readonly _nonces = new Set<string>();
+    private _tokenRequests: TokenRequest[] = [];
+    private _server?: http.Server;
+
+    /**
+     * @param options - The clients, users, keys and token lifetime.
+     */
+    constructor(options: AuthServerOptions = {}) {
+        this._options = {
+            clients: { 'test-client': 'test-secret' },
+            users: { user: 'password' },
+            tokenLifetimeSeconds: 3600,
+            digestAlgorithm: 'SHA-256',
+            hmacKeys: { 'test-key': 'test-secret' },
+            hmacMaxSkewSeconds: 300,
+            apiKeys: ['test-api-key'],
+            ...options
+        };
+        this._app = express();
+        this._app.use(express.text({ type: () => true }));
+        this._app.post('/oauth/token', (req, res) => this.token(req, res));
+        this._app.use('/bearer', (req, res) => this.bearer(req, res));
+        this._app.use('/digest', (req, res) => this.digest(req, res));
+        this._app.use('/hmac', (req, res) => this.hmac(req, res));
+        this._app.use('/api-key', (req, res) => this.apiKey(req, res));
+        this._app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+            res.status(500).json({ error: 'server_error', error_description: err.message });
+        });
+    }
+
+    /**
+     * Gets the requests to the token endpoint since the last reset.
+     * @returns The token requests, in order.
+     */
+    public tokenRequests(): TokenRequest[] {
+        return [...this._tokenRequests];
+    }
+
+    /**
+     * Makes all issued access tokens expire, e.g. to test that a 401 response leads to a new token.
+     * Refresh tokens stay valid.
+     * @returns The AuthServer instance.
+     */
+    public expireTokens(): AuthServer {
+        this._accessTokens.forEach(token => token.expiresAt = 0);
+        return this;
+    }
+
+    /**
+     * Revokes all tokens and Digest nonces and clears the token requests.
+     * @returns The AuthServer instance.
+     */
+    public reset(): AuthServer {
+        this._accessTokens.clear();
+        this._refreshTokens.clear();
+        this._nonces.clear();
+        this._tokenRequests = [];
+        return this;
+    }
+
+    /**
+     * Gets the Express app of the server, e.g. to call it in-process with an `ApiClient`.
+     * @returns The Express app.
+     */
+    public getApp(): Express {
+        return this._app;
+    }
+
+    /**
+     * Starts listening.
+     * @param port - The port; an ephemeral port when left out.
+     * @param host - The host to bind to.
+     * @returns The base URL of the server, e.g. 'http://127.0.0.1:8090'.
+     */
+    public listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = this._app.listen(port, host, () => {
+                const address = server.address() as AddressInfo;
+                resolve(`http://${host}:${address.port}`);
+            });
+            server.once('error', reject);
+            this._server = server;
+        });
+    }
+
+    /**
+     * Stops listening.
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this._server) {
+                return resolve();
+            }
+            this._server.close(err => err ? reject(err) : resolve());
+            this._server = undefined;
+        });
+    }
+
+    private token(req: Request, res: Response): void {
+        const form = new URLSearchParams(typeof req.body === 'string' ? req.body : '');
+        const grantType = form.get('grant_type') ?? '';
+        const basic = /^Basic (.+)$/i.exec(req.get('Authorization') ?? '');
+        const [clientId, clientSecret] = basic
+            ? splitOnce(Buffer.from(basic[1], 'base64').toString(), ':')
+            : [form.get('client_id') ?? '', form.get('client_secret') ?? ''];
+        const fail = (status: number, error: string, description: string) => {
+            this._tokenRequests.push({ grantType, clientId, status });
+            res.status(status).json({ error, error_description: description });
+        };
+
+        if (this._options.clients[clientId] === undefined || this._options.clients[clientId] !== clientSecret) {
+            res.set('WWW-Authenticate', `Basic realm="${REALM}"`);
+            return fail(401, 'invalid_client', 'Unknown client or wrong secret.');
+        }
+        let subject: string;
+        if (grantType === 'client_credentials') {
+            subject = clientId;
+        } else if (grantType === 'password') {
+            const username = form.get('username') ?? '';
+            if (this._options.users[username] === undefined || this._options.users[username] !== form.get('password')) {
+                return fail(400, 'invalid_grant', 'Wrong user name or password.');
+            }
+            subject = username;
+        } else if (grantType === 'refresh_token') {
+            const refreshed = this._refreshTokens.get(form.get('refresh_token') ?? '');
+            if (refreshed === undefined) {
+                return fail(400, 'invalid_grant', 'Unknown or revoked refresh token.');
+            }
+            this._refreshTokens.delete(form.get('refresh_token')!);
+            subject = refreshed;
+        } else {
+            return fail(400, 'unsupported_grant_type', `The grant type '${grantType}' is not supported.`);
+        }
+
+        const accessToken = crypto.randomBytes(24).toString('base64url');
+        this._accessTokens.set(accessToken, { subject, expiresAt: Date.now() + this._options.tokenLifetimeSeconds * 1000 });
+        // The client credentials grant doesn't issue refresh tokens (RFC 6749, section 4.4.3).
+        const refreshToken = grantType === 'client_credentials' ? undefined : crypto.randomBytes(24).toString('base64url');
+        if (refreshToken) {
+            this._refreshTokens.set(refreshToken, subject);
+        }
+        this._tokenRequests.push({ grantType, clientId, status: 200 });
+        res.set('Cache-Control', 'no-store').json({
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_in: this._options.tokenLifetimeSeconds,
+            ...(refreshToken ? { refresh_token: refreshToken } : {})
+        });
+    }
+
+    private bearer(req: Request, res: Response): void {
+        const token = /^Bearer (.+)$/i.exec(req.get('Authorization') ?? '')?.[1];
+        const issued = token !== undefined ? this._accessTokens.get(token) : undefined;
+        if (!issued || issued.expiresAt <= Date.now()) {
+            res.set('WWW-Authenticate', token === undefined
+                ? `Bearer realm="${REALM}"`
+                : `Bearer realm="${REALM}", error="invalid_token", error_description="The access token is unknown or expired."`);
+            return unauthorized(res);
+        }
+        authenticated(req, res, issued.subject);
+    }
+
+    private digest(req: Request, res: Response): void {
+        const algorithm = this._options.digestAlgorithm;
+        const challenge = (stale: boolean) => {
+            const nonce = crypto.randomBytes(16).toString('hex');
+            this._nonces.add(nonce);
+            res.set('WWW-Authenticate', `Digest realm="${REALM}", qop="auth, auth-int", algorithm=${algorithm}, `
+                + `nonce="${nonce}", opaque="${REALM}"${stale ? ', stale=true' : ''}`);
+            unauthorized(res);
+        };
+        const header = /^Digest (.+)$/i.exec(req.get('Authorization') ?? '')?.[1];
+        if (header === undefined) {
+            return challenge(false);
+        }
+        const params: Record<string, string> = {};
+        for (const [, key, quoted, token] of header.matchAll(/([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,\s]*))/g)) {
+            params[key.toLowerCase()] = quoted ?? token;
+        }
+        const password = this._options.users[params.username];
+        if (!this._nonces.has(params.nonce)) {
+            return challenge(true);
+        }
+        const expected = password === undefined ? undefined : digestResponse({
+            algorithm,
+            username: params.username,
+            password,
+            realm: REALM,
+            method: req.method,
+            uri: params.uri,
+            nonce: params.nonce,
+            nc: params.nc,
+            cnonce: params.cnonce,
+            qop: params.qop,
+            body: typeof req.body === 'string' ? req.body : ''
+        });
+        if (params.uri !== req.originalUrl || expected === undefined || expected !== params.response) {
+            return challenge(false);
+        }
+        authenticated(req, res, params.username);
+    }
+
+    private hmac(req: Request, res: Response): void {
+        const match = /^HMAC-(SHA256|SHA512) keyId="([^"]*)", signature="([^"]*)"$/i.exec(req.get('Authorization') ?? '');
+        const timestamp = req.get('X-Timestamp') ?? '';
+        const secret = match ? this._options.hmacKeys[match[2]] : undefined;
+        res.set('WWW-Authenticate', `HMAC realm="${REALM}"`);
+        if (!match || secret === undefined) {
+            return unauthorized(res);
+        }
+        if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > this._options.hmacMaxSkewSeconds) {
+            return unauthorized(res);
+        }
+        const expected = hmacSignature({
+            method: req.method,
+            path: req.originalUrl,
+            body: typeof req.body === 'string' ? req.body : '',
+            timestamp
+        }, secret, match[1].toLowerCase() as 'sha256' | 'sha512');
+        if (expected !== match[3]) {
+            return unauthorized(res);
+        }
+        res.removeHeader('WWW-Authenticate');
+        authenticated(req, res, match[2]);
+    }
+
+    private apiKey(req: Request, res: Response): void {
+        const key = req.get('X-API-Key') ?? (typeof req.query.api_key === 'string' ? req.query.api_key : undefined);
+        if (key === undefined || !this._options.apiKeys.includes(key)) {
+            res.set('WWW-Authenticate', `ApiKey realm="${REALM}"`);
+            return unauthorized(res);
+        }
+        authenticated(req, res, 'api-key');
+    }
+}
+
+function authenticated(req: Request, res: Response, subject: string): void {
+    res.json({ authenticated: subject, method: req.method, path: req.originalUrl });
+}
+
+function unauthorized(res: Response): void {
+    res.status(401).json({ error: 'unauthorized' });
+}
+
+function splitOnce(value: string, separator: string): [string, string] {
+    const index = value.indexOf(separator);
+    return index < 0 ? [value, ''] : [value.slice(0, index), value.slice(index + 1)];
+}
@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import nock, { Definition, Interceptor } from 'nock';
+import { Matcher, findMismatches } from "../api-test-framework/Matchers";
+import { AllowedHosts, disableNetConnect } from "./NetConnect";
+
+/**
+ * How a cassette handles requests:
+ * - `record`: requests reach the real server and every exchange is saved to the cassette.
+ * - `replay`: exchanges are served from the cassette; any other request fails.
+ * - `passthrough`: requests reach the real server and nothing is saved.
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * A recorded request and its response.
+ */
+export interface RecordedExchange {
+    request: {
+        method: string;
+        url: string;
+        headers: Record<string, string | string[]>;
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        headers: Record<string, string | string[]>;
+        body?: unknown;
+        /** Whether `body` is a hex-encoded binary body. */
+        binary?: boolean;
+    };
+}
+
+/**
+ * Options for a cassette.
+ */
+export interface CassetteOptions {
+    /** The mode; by default taken from the CASSETTE_MODE environment variable. */
+    mode?: CassetteMode;
+    /** Request and response headers whose values are scrubbed, lowercase. */
+    scrubHeaders?: string[];
+    /** Names of JSON body fields, at any depth, whose values are scrubbed in requests and responses. */
+    scrubBodyFields?: string[];
+    /** Hosts that may still be reached in replay mode, e.g. '127.0.0.1' for an in-process app. */
+    allowedHosts?: AllowedHosts;
+}
+
+const SCRUBBED = '[scrubbed]';
+
+const DEFAULT_SCRUB_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+// Recomputed by Node when the (possibly scrubbed) body is sent again.
+const HOP_HEADERS = ['content-length', 'transfer-encoding', 'connection'];
+
+/**
+ * Records the real HTTP exchanges of a test into a cassette file and replays them through `nock`,
+ * so tests against external APIs such as https://reqres.in run offline and deterministically.
+ *
+ * The mode comes from the CASSETTE_MODE environment variable (`record`, `replay` or `passthrough`).
+ * When it isn't set, an existing cassette is replayed and a missing one is recorded, except on CI,
+ * where a missing cassette is an error.
+ */
+export class Cassette {
+
+    private readonly _file: string;
+    private readonly _mode: CassetteMode;
+    private readonly _scrubHeaders: string[];
+    private readonly _scrubBodyFields: string[];
+    private readonly _allowedHosts: AllowedHosts;
+    private readonly _unmatched: string[] = [];
+    private _interceptors: Interceptor[] = [];
+    private _releaseNetConnect: () => void = () => undefined;
+    private _started = false;
+
+    /**
+     * @param file - The cassette file, e.g. 'tests/cassettes/users.json'.
+     * @param options - The cassette options.
+     */
+    constructor(file: string, options: CassetteOptions = {}) {
+        this._file = file;
+        this._mode = options.mode ?? Cassette.modeFromEnv(file);
+        this._scrubHeaders = (options.scrubHeaders ?? DEFAULT_SCRUB_HEADERS).map(name => name.toLowerCase());
+        this._scrubBodyFields = options.scrubBodyFields ?? [];
+        this._allowedHosts = options.allowedHosts ?? [];
+    }
+
+    private static modeFromEnv(file: string): CassetteMode {
+        const mode = process.env.CASSETTE_MODE;
+        if (mode === 'record' || mode === 'replay' || mode === 'passthrough') {
+            return mode;
+        }
+        if (mode) {
+            throw Error(`Unknown CASSETTE_MODE '${mode}'. Use 'record', 'replay' or 'passthrough'.`);
+        }
+        if (fs.existsSync(file)) {
+            return 'replay';
+        }
+        if (process.env.CI) {
+            throw Error(`Cassette ${file} does not exist. Record it with CASSETTE_MODE=record.`);
+        }
+        return 'record';
+    }
+
+    /**
+     * Gets the mode of the cassette.
+     * @returns The cassette mode.
+     */
+    public getMode(): CassetteMode {
+        return this._mode;
+    }
+
+    /**
+     * Starts recording or replaying.
+     * @returns The Cassette instance.
+     */
+    public start(): Cassette {
+        if (this._started) {
+            throw Error(`Cassette ${this._file} is already started.`);
+        }
+        this._started = true;
+        this._unmatched.length = 0;
+        if (this._mode === 'record') {
+            nock.recorder.clear();
+            nock.recorder.rec({ dont_print: true, output_objects: true, enable_reqheaders_recording: true });
+        } else if (this._mode === 'replay') {
+            this.replay();
+        }
+        return this;
+    }
+
+    /**
+     * Stops recording or replaying. A recording is written to the cassette file.
+     * @throws If a request in replay mode was not in the cassette.
+     */
+    public stop(): void {
+        if (!this._started) {
+            return;
+        }
+        this._started = false;
+        if (this._mode === 'record') {
+            const definitions = nock.recorder.play() as Definition[];
+            nock.restore();
+            nock.recorder.clear();
+            nock.activate();
+            this.save(definitions.map(definition => this.toExchange(definition)));
+        } else if (this._mode === 'replay') {
+            // Only the cassette's own interceptors, so that e.g. a MockRegistry installed alongside keeps its mocks.
+            this._interceptors.forEach(interceptor => nock.removeInterceptor(interceptor));
+            this._interceptors = [];
+            this._releaseNetConnect();
+            if (this._unmatched.length > 0) {
+                throw Error(`Requests not in cassette ${this._file}:\n${this._unmatched.map(r => `  ${r}`).join('\n')}`);
+            }
+        }
+    }
+
+    /**
+     * Runs a function with the cassette started, and stops it afterwards.
+     * @param fn - The function making the requests.
+     * @returns The result of the function.
+     */
+    public async use<T>(fn: () => Promise<T>): Promise<T> {
+        this.start();
+        try {
+            return await fn();
+        } finally {
+            this.stop();
+        }
+    }
+
+    private replay(): void {
+        const exchanges: RecordedExchange[] = JSON.parse(fs.readFileSync(this._file, 'utf8')).exchanges;
+        this._releaseNetConnect = disableNetConnect(this._allowedHosts, request => this._unmatched.push(request));
+        for (const { request, response } of exchanges) {
+            const url = new URL(request.url);
+            const expectedBody = this.scrubbedAsWildcard(request.body);
+            const interceptor = nock(url.origin).intercept(
+                `${url.pathname}${url.search}`,
+                request.method,
+                (body: any) => request.body === undefined || findMismatches(expectedBody, body).length === 0
+            );
+            this._interceptors.push(interceptor);
+            interceptor.reply(
+                response.status,
+                replyBody(response),
+                // Scrubbed headers are left out, as e.g. a scrubbed Set-Cookie is no valid cookie.
+                Object.fromEntries(Object.entries(response.headers)
+                    .filter(([name, value]) => !HOP_HEADERS.includes(name) && value !== SCRUBBED))
+            );
+        }
+    }
+
+    private toExchange(definition: Definition & Record<string, any>): RecordedExchange {
+        const url = new URL(String(definition.path), String(definition.scope));
+        return {
+            request: {
+                method: (definition.method ?? 'GET').toUpperCase(),
+                url: url.toString(),
+                headers: this.scrubHeaders(definition.reqheaders ?? {}),
+                ...(definition.body !== undefined && definition.body !== '' ? { body: this.scrubBody(definition.body) } : {})
+            },
+            response: {
+                status: definition.status ?? 200,
+                headers: this.scrubHeaders(toHeaderObject(definition.rawHeaders ?? [])),
+                ...(definition.response !== undefined && definition.response !== '' ? { body: this.scrubBody(definition.response) } : {}),
+                ...(definition.responseIsBinary ? { binary: true } : {})
+            }
+        };
+    }
+
+    private save(exchanges: RecordedExchange[]): void {
+        fs.mkdirSync(path.dirname(this._file), { recursive: true });
+        fs.writeFileSync(this._file, `${JSON.stringify({ version: 1, exchanges }, null, 2)}\n`);
+    }
+
+    private scrubHeaders(headers: Record<string, any>): Record<string, string | string[]> {
+        return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+            name.toLowerCase(),
+            this._scrubHeaders.includes(name.toLowerCase()) ? SCRUBBED : value
+        ]));
+    }
+
+    private scrubBody(body: unknown): unknown {
+        if (Array.isArray(body)) {
+            return body.map(item => this.scrubBody(item));
+        }
+        if (body !== null && typeof body === 'object') {
+            return Object.fromEntries(Object.entries(body).map(([key, value]) => [
+                key,
+                this._scrubBodyFields.includes(key) ? SCRUBBED : this.scrubBody(value)
+            ]));
+        }
+        return body;
+    }
+
+    /**
+     * Turns scrubbed values of a recorded request body into matchers that accept any value,
+     * since the real request carries the real secret.
+     */
+    private scrubbedAsWildcard(body: unknown): unknown {
+        if (body === SCRUBBED) {
+            return new Matcher('scrubbed value', actual => actual !== undefined);
+        }
+        if (Array.isArray(body)) {
+            return body.map(item => this.scrubbedAsWildcard(item));
+        }
+        if (body !== null && typeof body === 'object') {
+            return Object.fromEntries(Object.entries(body).map(([key, value]) => [key, this.scrubbedAsWildcard(value)]));
+        }
+        return body;
+    }
+}
+
+/**
+ * Gets the body of a recorded response as nock sends it: a binary body as a Buffer, and a JSON body
+ * other than an object or array, e.g. `42`, as its JSON text.
+ */
+function replyBody(response: RecordedExchange['response']): string | Buffer | object | undefined {
+    const { body } = response;
+    if (response.binary) {
+        return Buffer.from(String(body), 'hex');
+    }
+    if (body === undefined || typeof body === 'string' || (body !== null && typeof body === 'object')) {
+        return body;
+    }
+    return JSON.stringify(body);
+}
+
+/**
+ * Converts raw headers, [name, value, name, value, ...], to an object. Repeated headers become arrays.
+ */
+function toHeaderObject(rawHeaders: string[]): Record<string, string | string[]> {
+    const headers: Record<string, string | string[]> = {};
+    for (let i = 0; i < rawHeaders.length; i += 2) {
+        const name = rawHeaders[i].toLowerCase();
+        const existing = headers[name];
+        headers[name] = existing === undefined ? rawHeaders[i + 1] : [...([] as string[]).concat(existing), rawHeaders[i + 1]];
+    }
+    return headers;
+}
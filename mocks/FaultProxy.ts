@@ -0,0 +1,261 @@
+import http from 'http';
+import https from 'https';
+import { AddressInfo } from 'net';
+import { compilePath } from "./MockRegistry";
+
+/**
+ * A fault injected into the exchanges that match a rule. Each fault is applied with the given
+ * percentage of probability, 100 when left out.
+ * - `latency`: waits `ms` plus a random 0..`jitterMs` before forwarding the request.
+ * - `reset`: destroys the connection without a response.
+ * - `error`: answers with an error status (503 by default) without forwarding the request.
+ * - `truncate`: sends the status, headers and the first `bytes` bytes of the upstream body, then closes the connection.
+ * - `drip`: sends the upstream body in chunks of `chunkBytes` bytes, one every `intervalMs`.
+ */
+export type Fault = { percentage?: number } & (
+    | { type: 'latency', ms: number, jitterMs?: number }
+    | { type: 'reset' }
+    | { type: 'error', status?: number, body?: string }
+    | { type: 'truncate', bytes: number }
+    | { type: 'drip', chunkBytes: number, intervalMs: number }
+);
+
+/**
+ * Faults for the requests to a route.
+ */
+export interface FaultRule {
+    /** The method, or any method when left out. */
+    method?: string;
+    /** Path pattern: ':name' matches a segment, '*' matches anything. */
+    path: string;
+    faults: Fault[];
+}
+
+/**
+ * A request that went through the proxy, with the faults injected into it.
+ */
+export interface ProxiedRequest {
+    method: string;
+    path: string;
+    faults: Array<Fault['type']>;
+    /** The latency injected, jitter included, in milliseconds. */
+    delayMs: number;
+}
+
+/**
+ * A local HTTP proxy between the API under test and its client, which injects faults per route,
+ * so that retry and timeout settings such as `setRetry` and `setTimeout` are exercised.
+ *
+ * Which faults are injected, and their jitter, is decided by a pseudo-random generator seeded
+ * with `seed`, in the order the requests arrive, so a test that sends its requests in the same
+ * order sees the same faults on every run. `setRules` and `reset` restart the generator.
+ * e.g.
+ * const proxy = new FaultProxy('http://127.0.0.1:3000', { seed: 7 });
+ * const url = await proxy.listen();
+ * proxy.setRules([{ path: '/users/*', faults: [{ type: 'error', status: 503, percentage: 50 }] }]);
+ */
+export class FaultProxy {
+
+    private readonly _target: URL;
+    private readonly _seed: number;
+    private readonly _server: http.Server;
+    private _rules: FaultRule[] = [];
+    private _random: () => number;
+    private _log: ProxiedRequest[] = [];
+
+    /**
+     * @param target - The base URL of the proxied API, e.g. 'http://127.0.0.1:3000'.
+     * @param options - The seed of the pseudo-random generator.
+     */
+    constructor(target: string, options: { seed?: number } = {}) {
+        this._target = new URL(target);
+        this._seed = options.seed ?? 1;
+        this._random = seededRandom(this._seed);
+        this._server = http.createServer((req, res) => {
+            this.handle(req, res).catch(err => {
+                if (!res.headersSent) {
+                    res.writeHead(502, { 'Content-Type': 'application/problem+json' });
+                    res.end(JSON.stringify({ type: 'about:blank', title: 'Bad Gateway', status: 502, detail: err.message }));
+                } else {
+                    res.destroy();
+                }
+            });
+        });
+    }
+
+    /**
+     * Replaces the fault rules and restarts the pseudo-random generator. The first matching rule applies.
+     * @param rules - The fault rules.
+     * @returns The FaultProxy instance.
+     */
+    public setRules(rules: FaultRule[]): FaultProxy {
+        rules.flatMap(rule => rule.faults).forEach(validateFault);
+        this._rules = [...rules];
+        return this.reset();
+    }
+
+    /**
+     * Removes the fault rules, so that requests are forwarded unchanged.
+     * @returns The FaultProxy instance.
+     */
+    public clearRules(): FaultProxy {
+        return this.setRules([]);
+    }
+
+    /**
+     * Restarts the pseudo-random generator and clears the request log.
+     * @returns The FaultProxy instance.
+     */
+    public reset(): FaultProxy {
+        this._random = seededRandom(this._seed);
+        this._log = [];
+        return this;
+    }
+
+    /**
+     * Gets the requests that went through the proxy since the last reset.
+     * @returns The proxied requests, in order.
+     */
+    public requests(): ProxiedRequest[] {
+        return [...this._log];
+    }
+
+    /**
+     * Starts listening.
+     * @param port - The port; an ephemeral port when left out.
+     * @param host - The host to bind to.
+     * @returns The base URL of the proxy, to be used as the target of an `ApiClient`.
+     * Paths are forwarded relative to the base URL of the proxied API.
+     */
+    public listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(port, host, () => {
+                const address = this._server.address() as AddressInfo;
+                resolve(`http://${host}:${address.port}`);
+            });
+        });
+    }
+
+    /**
+     * Stops listening and closes open connections.
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this._server.close(err => err ? reject(err) : resolve());
+            this._server.closeAllConnections();
+        });
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://proxy');
+        const method = req.method ?? 'GET';
+        const rule = this._rules.find(rule => (!rule.method || rule.method.toUpperCase() === method)
+            && compilePath(rule.path).regex.test(url.pathname));
+        // Every fault draws from the generator, whether it applies or not, so the sequence is stable.
+        // All draws are made before the first await, so concurrent requests draw in the order they arrive.
+        const faults = (rule?.faults ?? []).filter(fault => this._random() * 100 < (fault.percentage ?? 100));
+        const delayMs = faults.reduce((total, fault) => fault.type === 'latency'
+            ? total + fault.ms + Math.floor(this._random() * (fault.jitterMs ?? 0))
+            : total, 0);
+        this._log.push({ method, path: url.pathname, faults: faults.map(fault => fault.type), delayMs });
+
+        if (delayMs > 0) {
+            await sleep(delayMs);
+        }
+        const body = await readBody(req);
+        const reset = faults.find(fault => fault.type === 'reset');
+        if (reset) {
+            req.socket.destroy();
+            return;
+        }
+        const error = faults.find(fault => fault.type === 'error');
+        if (error?.type === 'error') {
+            const status = error.status ?? 503;
+            res.writeHead(status, { 'Content-Type': 'text/plain' });
+            res.end(error.body ?? http.STATUS_CODES[status]);
+            return;
+        }
+
+        const upstream = await this.forward(req, body);
+        const truncate = faults.find(fault => fault.type === 'truncate');
+        if (truncate?.type === 'truncate') {
+            // The original Content-Length is kept, so the client sees a response that ends early.
+            res.writeHead(upstream.status, upstream.headers);
+            res.write(upstream.body.subarray(0, truncate.bytes), () => res.destroy());
+            return;
+        }
+        const drip = faults.find(fault => fault.type === 'drip');
+        if (drip?.type === 'drip') {
+            res.writeHead(upstream.status, upstream.headers);
+            for (let offset = 0; offset < upstream.body.length; offset += drip.chunkBytes) {
+                if (offset > 0) {
+                    await sleep(drip.intervalMs);
+                }
+                if (res.destroyed) {
+                    return;
+                }
+                res.write(upstream.body.subarray(offset, offset + drip.chunkBytes));
+            }
+            res.end();
+            return;
+        }
+        res.writeHead(upstream.status, upstream.headers);
+        res.end(upstream.body);
+    }
+
+    private forward(req: http.IncomingMessage, body: Buffer)
+        : Promise<{ status: number, headers: http.IncomingHttpHeaders, body: Buffer }> {
+        const path = `${this._target.pathname.replace(/\/+$/, '')}${req.url ?? '/'}`;
+        const client = this._target.protocol === 'https:' ? https : http;
+        return new Promise((resolve, reject) => {
+            const upstream = client.request(new URL(path, this._target), {
+                method: req.method,
+                headers: { ...req.headers, host: this._target.host }
+            }, res => {
+                readBody(res).then(buffer => resolve({ status: res.statusCode ?? 502, headers: res.headers, body: buffer }), reject);
+            });
+            upstream.once('error', reject);
+            upstream.end(body);
+        });
+    }
+}
+
+function validateFault(fault: Fault): void {
+    if (fault.percentage !== undefined && (fault.percentage < 0 || fault.percentage > 100)) {
+        throw Error(`The percentage of a '${fault.type}' fault must be between 0 and 100, got ${fault.percentage}.`);
+    }
+    if (fault.type === 'error' && fault.status !== undefined && (fault.status < 500 || fault.status > 599)) {
+        throw Error(`The status of an 'error' fault must be a 5xx status, got ${fault.status}.`);
+    }
+    if (fault.type === 'drip' && fault.chunkBytes < 1) {
+        throw Error(`The chunkBytes of a 'drip' fault must be at least 1, got ${fault.chunkBytes}.`);
+    }
+}
+
+function readBody(stream: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        stream.on('data', chunk => chunks.push(chunk));
+        stream.once('end', () => resolve(Buffer.concat(chunks)));
+        stream.once('error', reject);
+    });
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A small seeded pseudo-random generator (mulberry32), returning numbers in [0, 1).
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import nock, { Interceptor } from 'nock';
+import YAML from 'yaml';
+import { JsonSchema, validateJsonSchema, formatViolations } from "../api-test-framework/JsonSchema";
+import { findMismatches, formatMismatches } from "../api-test-framework/Matchers";
+import { AllowedHosts, disableNetConnect } from "./NetConnect";
+
+/**
+ * A mocked response. String values may contain `{{request.params.id}}`, `{{request.query.page}}`,
+ * `{{request.body.name}}` or `{{request.headers.accept}}` placeholders filled from the request.
+ */
+export interface MockResponse {
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+    /** Delay before the response is sent, in milliseconds. */
+    delayMs?: number;
+}
+
+/**
+ * A mock definition, as loaded from a JSON or YAML fixture file.
+ */
+export interface MockDefinition {
+    /** Unique name, used to verify the calls of the mock. */
+    name: string;
+    /** The mocked origin, e.g. 'http://127.0.0.1:8080'. */
+    baseUrl: string;
+    method: string;
+    /** Path pattern: ':name' matches a segment and is available to templates, '*' matches anything. */
+    path: string;
+    /** Query parameters the request must have; other parameters are allowed. */
+    query?: Record<string, string | number | boolean>;
+    /** Part of the JSON body the request must contain, compared partially. */
+    body?: unknown;
+    response: MockResponse;
+    /** How often the mock may be matched; unlimited when left out. */
+    times?: number;
+    /** How often the mock is expected to be called, checked by `verifyAll`. */
+    expectedCalls?: number;
+}
+
+/**
+ * A request received by a mock.
+ */
+export interface RecordedCall {
+    method: string;
+    path: string;
+    params: Record<string, string>;
+    query: Record<string, string | string[]>;
+    headers: Record<string, string | string[] | undefined>;
+    body: unknown;
+}
+
+/**
+ * JSON Schema of a fixture file entry, so that typos in fixtures fail at load time.
+ */
+export const MOCK_DEFINITION_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['name', 'baseUrl', 'method', 'path', 'response'],
+    additionalProperties: false,
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        baseUrl: { type: 'string', pattern: '^https?://' },
+        method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] },
+        path: { type: 'string', pattern: '^/' },
+        query: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean'] } },
+        body: {},
+        times: { type: 'integer', minimum: 1 },
+        expectedCalls: { type: 'integer', minimum: 0 },
+        response: {
+            type: 'object',
+            required: ['status'],
+            additionalProperties: false,
+            properties: {
+                status: { type: 'integer', minimum: 100, maximum: 599 },
+                headers: { type: 'object', additionalProperties: { type: 'string' } },
+                body: {},
+                delayMs: { type: 'integer', minimum: 0 }
+            }
+        }
+    }
+};
+
+/**
+ * Loads mock definitions from fixture files, installs them as `nock` interceptors
+ * and records the calls they receive for verification.
+ *
+ * Requests that match no mock are recorded too, and the network is disabled while the mocks
+ * are installed, so unmatched requests fail instead of reaching a real server.
+ * Requests to the allowed hosts reach them and are not recorded.
+ */
+export class MockRegistry {
+
+    private readonly _definitions = new Map<string, MockDefinition>();
+    private readonly _calls = new Map<string, RecordedCall[]>();
+    private readonly _unmatched: string[] = [];
+    private _interceptors: Interceptor[] = [];
+    private _releaseNetConnect: () => void = () => undefined;
+
+    /**
+     * Loads mock definitions from a fixture file or a directory of fixture files.
+     * A file holds one definition or an array of definitions, as JSON (.json) or YAML (.yaml, .yml).
+     * @param fileOrDir - The fixture file or directory.
+     * @returns The MockRegistry instance.
+     */
+    public load(fileOrDir: string): MockRegistry {
+        readDefinitions(fileOrDir, MOCK_DEFINITION_SCHEMA).forEach(definition => this.add(definition as MockDefinition));
+        return this;
+    }
+
+    /**
+     * Adds a mock definition.
+     * @param definition - The mock definition.
+     * @returns The MockRegistry instance.
+     */
+    public add(definition: MockDefinition): MockRegistry {
+        if (this._definitions.has(definition.name)) {
+            throw Error(`A mock named '${definition.name}' is already registered.`);
+        }
+        this._definitions.set(definition.name, definition);
+        return this;
+    }
+
+    /**
+     * Installs the mocks as `nock` interceptors and disables the network, except for the allowed hosts.
+     * @param allowedHosts - Hosts that may still be reached, e.g. '127.0.0.1' for an in-process app.
+     * @returns The MockRegistry instance.
+     */
+    public install(allowedHosts: AllowedHosts = []): MockRegistry {
+        this.uninstall();
+        this._releaseNetConnect = disableNetConnect(allowedHosts, request => this._unmatched.push(request));
+        for (const definition of this._definitions.values()) {
+            this._interceptors.push(this.intercept(definition));
+        }
+        return this;
+    }
+
+    /**
+     * Removes the installed interceptors and releases the network, which is enabled again
+     * unless e.g. a replaying Cassette still disables it. Recorded calls are kept.
+     * @returns The MockRegistry instance.
+     */
+    public uninstall(): MockRegistry {
+        this._interceptors.forEach(interceptor => nock.removeInterceptor(interceptor));
+        this._interceptors = [];
+        this._releaseNetConnect();
+        return this;
+    }
+
+    /**
+     * Clears the recorded calls and unmatched requests.
+     * @returns The MockRegistry instance.
+     */
+    public reset(): MockRegistry {
+        this._calls.clear();
+        this._unmatched.length = 0;
+        return this;
+    }
+
+    /**
+     * Gets the calls a mock received.
+     * @param name - The name of the mock.
+     * @returns The recorded calls, in order.
+     */
+    public calls(name: string): RecordedCall[] {
+        this.definition(name);
+        return this._calls.get(name) ?? [];
+    }
+
+    /**
+     * Gets the requests that matched no mock.
+     * @returns The unmatched requests, as 'METHOD url'.
+     */
+    public unmatchedRequests(): string[] {
+        return [...this._unmatched];
+    }
+
+    /**
+     * Verifies that a mock was called the expected number of times, each time with the expected body.
+     * @param name - The name of the mock.
+     * @param times - The expected number of calls.
+     * @param body - Part of the JSON body each call must contain, compared partially; may contain matchers.
+     * @returns The MockRegistry instance.
+     */
+    public verify(name: string, times: number, body?: unknown): MockRegistry {
+        const calls = this.calls(name);
+        const errors: string[] = [];
+        if (calls.length !== times) {
+            errors.push(`Mock '${name}' was called ${calls.length} time(s), expected ${times}.`);
+        }
+        if (body !== undefined) {
+            calls.forEach((call, i) => {
+                const mismatches = findMismatches(body, call.body);
+                if (mismatches.length > 0) {
+                    errors.push(`Call ${i + 1} of mock '${name}' has an unexpected body:\n${formatMismatches(mismatches)}`);
+                }
+            });
+        }
+        this.throwIfAny(errors);
+        return this;
+    }
+
+    /**
+     * Verifies every mock that declares `expectedCalls`, and that no request went unmatched.
+     * @returns The MockRegistry instance.
+     */
+    public verifyAll(): MockRegistry {
+        const errors: string[] = [];
+        for (const definition of this._definitions.values()) {
+            const calls = this.calls(definition.name).length;
+            if (definition.expectedCalls !== undefined && calls !== definition.expectedCalls) {
+                errors.push(`Mock '${definition.name}' was called ${calls} time(s), expected ${definition.expectedCalls}.`);
+            }
+        }
+        errors.push(...this._unmatched.map(request => `No mock matched ${request}.`));
+        this.throwIfAny(errors);
+        return this;
+    }
+
+    private throwIfAny(errors: string[]): void {
+        if (errors.length > 0) {
+            throw Error(`Mock verification failed:\n${errors.join('\n')}`);
+        }
+    }
+
+    private definition(name: string): MockDefinition {
+        const definition = this._definitions.get(name);
+        if (!definition) {
+            throw Error(`No mock named '${name}' is registered.`);
+        }
+        return definition;
+    }
+
+    private intercept(definition: MockDefinition): Interceptor {
+        const pathPattern = compilePath(definition.path);
+        const registry = this;
+        const interceptor = nock(definition.baseUrl)
+            .intercept(
+                (uri: string) => pathPattern.regex.test(uri.split('?')[0]),
+                definition.method.toUpperCase(),
+                (body: any) => definition.body === undefined || findMismatches(definition.body, body).length === 0
+            )
+            .query((query: Record<string, any>) => Object.entries(definition.query ?? {})
+                .every(([key, value]) => query[key] === String(value)));
+        if (definition.response.delayMs) {
+            interceptor.delay(definition.response.delayMs);
+        }
+        if (definition.times !== undefined) {
+            interceptor.times(definition.times);
+        }
+        const scope = interceptor.reply(function (uri: string, body: any) {
+            const url = new URL(uri, definition.baseUrl);
+            const match = pathPattern.regex.exec(url.pathname);
+            const call: RecordedCall = {
+                method: definition.method.toUpperCase(),
+                path: url.pathname,
+                params: Object.fromEntries(pathPattern.names.map((name, i) => [name, decodeURIComponent(match?.[i + 1] ?? '')])),
+                query: Object.fromEntries([...url.searchParams.keys()].map(key => {
+                    const values = url.searchParams.getAll(key);
+                    return [key, values.length > 1 ? values : values[0]];
+                })),
+                headers: { ...this.req.headers },
+                body
+            };
+            registry._calls.set(definition.name, [...(registry._calls.get(definition.name) ?? []), call]);
+            const request = { request: call };
+            return [
+                definition.response.status,
+                toReplyBody(renderTemplate(definition.response.body, request)),
+                renderTemplate(definition.response.headers ?? {}, request)
+            ];
+        });
+        if (definition.times === undefined) {
+            scope.persist();
+        }
+        return interceptor;
+    }
+}
+
+/**
+ * Gets a rendered response body as nock sends it: no body as an empty one, and a JSON value
+ * other than an object or array, e.g. a number filled from `{{request.body.age}}`, as its JSON text.
+ */
+function toReplyBody(body: unknown): string | object {
+    if (body === undefined) {
+        return '';
+    }
+    return typeof body === 'string' || (body !== null && typeof body === 'object') ? body : JSON.stringify(body);
+}
+
+/**
+ * Reads the definitions of a fixture file or a directory of fixture files and validates each against a schema.
+ * A file holds one definition or an array of definitions, as JSON (.json) or YAML (.yaml, .yml).
+ * @param fileOrDir - The fixture file or directory.
+ * @param schema - The JSON Schema of a definition.
+ * @returns The definitions, in file name order.
+ */
+export function readDefinitions(fileOrDir: string, schema: JsonSchema): unknown[] {
+    if (fs.statSync(fileOrDir).isDirectory()) {
+        return fs.readdirSync(fileOrDir)
+            .filter(file => /\.(json|ya?ml)$/.test(file))
+            .sort()
+            .flatMap(file => readDefinitions(path.join(fileOrDir, file), schema));
+    }
+    const text = fs.readFileSync(fileOrDir, 'utf8');
+    const content = fileOrDir.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+    const definitions: unknown[] = Array.isArray(content) ? content : [content];
+    definitions.forEach((definition, i) => {
+        const violations = validateJsonSchema(schema, definition);
+        if (violations.length > 0) {
+            throw Error(`Invalid mock definition ${i} in ${fileOrDir}:\n${formatViolations(violations)}`);
+        }
+    });
+    return definitions;
+}
+
+/**
+ * Compiles a path pattern such as '/users/:id' or '/files/*' to a regular expression.
+ */
+export function compilePath(pattern: string): { regex: RegExp, names: string[] } {
+    const names: string[] = [];
+    const source = pattern
+        .split('/')
+        .map(segment => {
+            if (segment.startsWith(':')) {
+                names.push(segment.slice(1));
+                return '([^/]+)';
+            }
+            return segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        })
+        .join('/');
+    return { regex: new RegExp(`^${source}/?$`), names };
+}
+
+/**
+ * Fills `{{request.…}}` placeholders of a response template. A string that is only a placeholder
+ * is replaced by the value itself, so numbers and objects keep their type.
+ */
+export function renderTemplate(template: unknown, variables: Record<string, unknown>): unknown {
+    const lookup = (name: string) => name.split('.').reduce<any>((value, key) => value?.[key], variables);
+    if (typeof template === 'string') {
+        const whole = /^\{\{\s*([\w.-]+)\s*\}\}$/.exec(template);
+        if (whole) {
+            return lookup(whole[1]);
+        }
+        return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, name: string) => String(lookup(name) ?? ''));
+    }
+    if (Array.isArray(template)) {
+        return template.map(item => renderTemplate(item, variables));
+    }
+    if (template !== null && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, variables)]));
+    }
+    return template;
+}
@@ -0,0 +1,84 @@
+import nock from 'nock';
+
+/**
+ * Hosts that may still be reached while the network is disabled, matched like `nock.enableNetConnect`
+ * against 'hostname:port': a string as a regular expression, e.g. '127.0.0.1' for an in-process app.
+ */
+export type AllowedHosts = Array<string | RegExp>;
+
+/**
+ * The fields read from the request options nock emits with 'no match'.
+ */
+interface NockRequestOptions {
+    method?: string;
+    proto?: string;
+    protocol?: string;
+    hostname?: string;
+    host?: string;
+    port?: number | string;
+    path?: string;
+}
+
+/**
+ * The allowed hosts of every caller of `disableNetConnect` that has not released the network yet.
+ */
+const active = new Set<AllowedHosts>();
+
+/**
+ * Disables the network through nock, except for the allowed hosts, until the returned function is called,
+ * and reports the requests to other hosts that no interceptor matched.
+ *
+ * Cassettes and MockRegistries disable the network at the same time: a host can be reached only
+ * while all of them allow it, and the network is enabled again once the last of them releases it.
+ * @param allowedHosts - The hosts that may still be reached.
+ * @param onUnmatched - Called with 'METHOD url' for each request that matched no interceptor.
+ * @returns A function that releases the network and stops reporting.
+ */
+export function disableNetConnect(allowedHosts: AllowedHosts, onUnmatched: (request: string) => void): () => void {
+    const hosts = [...allowedHosts];
+    // nock emits the request options when no interceptor is set up for the origin, and the request may
+    // then reach an allowed host. It emits the request followed by its options when the origin's
+    // interceptors don't match, and the request fails whatever its host.
+    const onNoMatch = (req: NockRequestOptions, options?: NockRequestOptions) => {
+        const o = options ?? req;
+        const proto = o.proto ?? o.protocol?.replace(/:$/, '') ?? 'http';
+        const hostname = o.hostname ?? o.host?.split(':')[0] ?? 'localhost';
+        const defaultPort = proto === 'https' ? 443 : 80;
+        const port = Number(o.port ?? defaultPort);
+        if (options || !isAllowedHost(`${hostname}:${port}`, hosts)) {
+            onUnmatched(`${o.method} ${proto}://${hostname}${port === defaultPort ? '' : `:${port}`}${o.path ?? '/'}`);
+        }
+    };
+    active.add(hosts);
+    applyNetConnect();
+    nock.emitter.on('no match', onNoMatch);
+    let released = false;
+    return () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        nock.emitter.removeListener('no match', onNoMatch);
+        active.delete(hosts);
+        applyNetConnect();
+    };
+}
+
+/**
+ * Checks a host against allowed hosts the way `nock.enableNetConnect` does.
+ * @param host - The host, as 'hostname:port'.
+ * @param allowedHosts - The allowed hosts.
+ * @returns Whether the host is allowed.
+ */
+export function isAllowedHost(host: string, allowedHosts: AllowedHosts): boolean {
+    return allowedHosts.some(allowed => (typeof allowed === 'string' ? new RegExp(allowed) : allowed).test(host));
+}
+
+function applyNetConnect(): void {
+    if (active.size === 0) {
+        nock.enableNetConnect();
+        return;
+    }
+    // A single matcher, as each call to `nock.enableNetConnect` replaces the previous one.
+    nock.enableNetConnect((host: string) => [...active].every(hosts => isAllowedHost(host, hosts)));
+}
@@ -0,0 +1,128 @@
+import { ApiMethods, ApiTarget } from "../api-test-framework/ApiCall";
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { findMismatches, formatMismatches } from "../api-test-framework/Matchers";
+import { JournalEntry, StubDefinition } from "./StubServer";
+
+/**
+ * Drives a `StubServer` through its admin API, for test setup and verification.
+ * e.g. const stubs = new StubAdminClient('http://127.0.0.1:8089');
+ */
+export class StubAdminClient {
+
+    private readonly _client: ApiClient;
+
+    /**
+     * @param target - The base URL of the stub server, or its Express app.
+     */
+    constructor(target: ApiTarget) {
+        this._client = new ApiClient(target);
+    }
+
+    /**
+     * Adds a stub.
+     * @param definition - The stub definition.
+     */
+    public async addStub(definition: StubDefinition): Promise<void> {
+        await this._client.call(ApiMethods.POST, '/__admin/stubs').setRawBody(definition).expectStatus(201).done();
+    }
+
+    /**
+     * Lists the stubs.
+     * @returns The stub definitions, in the order they were added.
+     */
+    public async listStubs(): Promise<StubDefinition[]> {
+        return (await this._client.call(ApiMethods.GET, '/__admin/stubs').expectStatus(200).done()).body;
+    }
+
+    /**
+     * Removes a stub.
+     * @param name - The name of the stub.
+     */
+    public async removeStub(name: string): Promise<void> {
+        await this._client.call(ApiMethods.DELETE, '/__admin/stubs/:name', { name }).expectStatus(204).done();
+    }
+
+    /**
+     * Removes every stub.
+     */
+    public async removeAllStubs(): Promise<void> {
+        await this._client.call(ApiMethods.DELETE, '/__admin/stubs').expectStatus(204).done();
+    }
+
+    /**
+     * Gets the requests the server received.
+     * @param stub - Only the requests answered by this stub.
+     * @returns The journal entries, in order.
+     */
+    public async journal(stub?: string): Promise<JournalEntry[]> {
+        const call = this._client.call(ApiMethods.GET, '/__admin/journal');
+        if (stub !== undefined) {
+            call.setQueryParam('stub', stub);
+        }
+        return (await call.expectStatus(200).done()).body;
+    }
+
+    /**
+     * Gets the requests that matched no stub.
+     * @returns The unmatched journal entries, in order.
+     */
+    public async unmatchedRequests(): Promise<JournalEntry[]> {
+        return (await this.journal()).filter(entry => entry.stub === null);
+    }
+
+    /**
+     * Clears the journal.
+     */
+    public async clearJournal(): Promise<void> {
+        await this._client.call(ApiMethods.DELETE, '/__admin/journal').expectStatus(204).done();
+    }
+
+    /**
+     * Gets the state of every scenario.
+     * @returns The states by scenario name.
+     */
+    public async scenarios(): Promise<Record<string, string>> {
+        return (await this._client.call(ApiMethods.GET, '/__admin/scenarios').expectStatus(200).done()).body;
+    }
+
+    /**
+     * Moves a scenario to a state.
+     * @param name - The name of the scenario.
+     * @param state - The new state.
+     */
+    public async setScenarioState(name: string, state: string): Promise<void> {
+        await this._client.call(ApiMethods.PUT, '/__admin/scenarios/:name', { name }).setRawBody({ state }).expectStatus(200).done();
+    }
+
+    /**
+     * Clears the journal, the match counts and the scenario states. The stubs are kept.
+     */
+    public async reset(): Promise<void> {
+        await this._client.call(ApiMethods.POST, '/__admin/reset').expectStatus(204).done();
+    }
+
+    /**
+     * Verifies that a stub answered the expected number of requests, each with the expected body.
+     * @param name - The name of the stub.
+     * @param times - The expected number of requests.
+     * @param body - Part of the JSON body each request must contain, compared partially; may contain matchers.
+     */
+    public async verify(name: string, times: number, body?: unknown): Promise<void> {
+        const entries = await this.journal(name);
+        const errors: string[] = [];
+        if (entries.length !== times) {
+            errors.push(`Stub '${name}' was called ${entries.length} time(s), expected ${times}.`);
+        }
+        if (body !== undefined) {
+            entries.forEach((entry, i) => {
+                const mismatches = findMismatches(body, entry.body);
+                if (mismatches.length > 0) {
+                    errors.push(`Call ${i + 1} of stub '${name}' has an unexpected body:\n${formatMismatches(mismatches)}`);
+                }
+            });
+        }
+        if (errors.length > 0) {
+            throw Error(`Stub verification failed:\n${errors.join('\n')}`);
+        }
+    }
+}
@@ -0,0 +1,314 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { JsonSchema, validateJsonSchema, formatViolations } from "../api-test-framework/JsonSchema";
+import { findMismatches } from "../api-test-framework/Matchers";
+import { MockDefinition, RecordedCall, MOCK_DEFINITION_SCHEMA, readDefinitions, compilePath, renderTemplate } from "./MockRegistry";
+
+/**
+ * A stub served by the stub server. It is a mock definition whose `baseUrl`, if any, is ignored,
+ * and which may take part in a scenario: it only matches while its scenario is in `requiredState`,
+ * and moves the scenario to `newState` when it matches. Every scenario starts in the 'Started' state.
+ */
+export interface StubDefinition extends Omit<MockDefinition, 'baseUrl'> {
+    baseUrl?: string;
+    scenario?: string;
+    requiredState?: string;
+    newState?: string;
+}
+
+/**
+ * A request received by the stub server, with the name of the stub that answered it.
+ */
+export interface JournalEntry extends RecordedCall {
+    /** The matching stub, or null if no stub matched. */
+    stub: string | null;
+    /** When the request was received, as an ISO 8601 date-time. */
+    receivedAt: string;
+}
+
+export const SCENARIO_STARTED = 'Started';
+
+const STUB_DEFINITION_SCHEMA: JsonSchema = {
+    ...MOCK_DEFINITION_SCHEMA,
+    required: ['name', 'method', 'path', 'response'],
+    properties: {
+        ...MOCK_DEFINITION_SCHEMA.properties,
+        scenario: { type: 'string', minLength: 1 },
+        requiredState: { type: 'string', minLength: 1 },
+        newState: { type: 'string', minLength: 1 }
+    },
+    dependentRequired: { requiredState: ['scenario'], newState: ['scenario'] }
+};
+
+/**
+ * A stub HTTP server that serves mock definitions on a real port, so that clients outside
+ * this Node process (browsers, mobile apps, services in other languages) can use them too.
+ *
+ * Stubs are matched like the mocks of `MockRegistry`, the most recently added stub first.
+ * Requests that match no stub get a 404 problem+json response. Every request is kept in a journal.
+ *
+ * The server is driven through an admin API under `/__admin`, e.g. with a `StubAdminClient`:
+ * - `GET /__admin/stubs`, `POST /__admin/stubs`, `DELETE /__admin/stubs`, `DELETE /__admin/stubs/:name`
+ * - `GET /__admin/journal?stub=name`, `DELETE /__admin/journal`
+ * - `GET /__admin/scenarios`, `PUT /__admin/scenarios/:name` with `{ "state": "..." }`
+ * - `POST /__admin/reset`: clears the journal, the match counts and the scenario states, keeping the stubs.
+ */
+export class StubServer {
+
+    private readonly _app: Express;
+    private readonly _stubs: StubDefinition[] = [];
+    private readonly _matchCounts = new Map<string, number>();
+    private readonly _scenarios = new Map<string, string>();
+    private readonly _journal: JournalEntry[] = [];
+    private _server?: http.Server;
+
+    constructor() {
+        this._app = express();
+        this._app.use(express.text({ type: () => true, limit: '10mb' }));
+        this._app.use('/__admin', this.adminRouter());
+        this._app.use((req, res, next) => this.serve(req, res).catch(next));
+        this._app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+            sendProblem(res, err.status ?? 500, err.title ?? 'Internal Server Error', err.message);
+        });
+    }
+
+    /**
+     * Loads stubs from a fixture file or a directory of fixture files, in the format of `MockRegistry.load`.
+     * @param fileOrDir - The fixture file or directory.
+     * @returns The StubServer instance.
+     */
+    public load(fileOrDir: string): StubServer {
+        readDefinitions(fileOrDir, STUB_DEFINITION_SCHEMA).forEach(definition => this.add(definition as StubDefinition));
+        return this;
+    }
+
+    /**
+     * Adds a stub.
+     * @param definition - The stub definition.
+     * @returns The StubServer instance.
+     */
+    public add(definition: StubDefinition): StubServer {
+        const violations = validateJsonSchema(STUB_DEFINITION_SCHEMA, definition);
+        if (violations.length > 0) {
+            throw Object.assign(Error(`Invalid stub definition:\n${formatViolations(violations)}`), { status: 400, title: 'Bad Request' });
+        }
+        if (this._stubs.some(stub => stub.name === definition.name)) {
+            throw Object.assign(Error(`A stub named '${definition.name}' is already registered.`), { status: 409, title: 'Conflict' });
+        }
+        this._stubs.push(definition);
+        return this;
+    }
+
+    /**
+     * Gets the Express app of the server, e.g. to call it in-process with an `ApiClient`.
+     * @returns The Express app.
+     */
+    public getApp(): Express {
+        return this._app;
+    }
+
+    /**
+     * Starts listening.
+     * @param port - The port; an ephemeral port when left out.
+     * @param host - The host to bind to.
+     * @returns The base URL of the server, e.g. 'http://127.0.0.1:8089'.
+     */
+    public listen(port = 0, host = '127.0.0.1'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = this._app.listen(port, host, () => {
+                const address = server.address() as AddressInfo;
+                resolve(`http://${host}:${address.port}`);
+            });
+            server.once('error', reject);
+            this._server = server;
+        });
+    }
+
+    /**
+     * Stops listening.
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this._server) {
+                return resolve();
+            }
+            this._server.close(err => err ? reject(err) : resolve());
+            this._server = undefined;
+        });
+    }
+
+    private adminRouter(): express.Router {
+        const router = express.Router();
+        router.get('/stubs', (_req, res) => {
+            res.json(this._stubs);
+        });
+        router.post('/stubs', (req, res) => {
+            const definition = parseJson(req.body);
+            this.add(definition);
+            res.status(201).json(definition);
+        });
+        router.delete('/stubs', (_req, res) => {
+            this._stubs.length = 0;
+            this._matchCounts.clear();
+            res.status(204).end();
+        });
+        router.delete('/stubs/:name', (req, res) => {
+            const index = this._stubs.findIndex(stub => stub.name === req.params.name);
+            if (index < 0) {
+                return sendProblem(res, 404, 'Not Found', `No stub named '${req.params.name}' is registered.`);
+            }
+            this._stubs.splice(index, 1);
+            this._matchCounts.delete(req.params.name);
+            res.status(204).end();
+        });
+        router.get('/journal', (req, res) => {
+            const stub = req.query.stub;
+            res.json(stub === undefined ? this._journal : this._journal.filter(entry => entry.stub === stub));
+        });
+        router.delete('/journal', (_req, res) => {
+            this._journal.length = 0;
+            res.status(204).end();
+        });
+        router.get('/scenarios', (_req, res) => {
+            const names = new Set(this._stubs.map(stub => stub.scenario).filter((name): name is string => !!name));
+            res.json(Object.fromEntries([...names].sort().map(name => [name, this.scenarioState(name)])));
+        });
+        router.put('/scenarios/:name', (req, res) => {
+            const { state } = parseJson(req.body);
+            if (typeof state !== 'string' || state === '') {
+                return sendProblem(res, 400, 'Bad Request', "The body must be { \"state\": \"<state>\" }.");
+            }
+            this._scenarios.set(req.params.name, state);
+            res.json({ [req.params.name]: state });
+        });
+        router.post('/reset', (_req, res) => {
+            this._journal.length = 0;
+            this._matchCounts.clear();
+            this._scenarios.clear();
+            res.status(204).end();
+        });
+        return router;
+    }
+
+    private async serve(req: Request, res: Response): Promise<void> {
+        const url = new URL(req.originalUrl, 'http://stub');
+        const entry: JournalEntry = {
+            method: req.method,
+            path: url.pathname,
+            params: {},
+            query: Object.fromEntries([...url.searchParams.keys()].map(key => {
+                const values = url.searchParams.getAll(key);
+                return [key, values.length > 1 ? values : values[0]];
+            })),
+            headers: { ...req.headers },
+            body: parseBody(req.body),
+            stub: null,
+            receivedAt: new Date().toISOString()
+        };
+        this._journal.push(entry);
+
+        for (const stub of [...this._stubs].reverse()) {
+            const params = this.match(stub, entry);
+            if (!params) {
+                continue;
+            }
+            entry.stub = stub.name;
+            entry.params = params;
+            this._matchCounts.set(stub.name, (this._matchCounts.get(stub.name) ?? 0) + 1);
+            if (stub.scenario && stub.newState) {
+                this._scenarios.set(stub.scenario, stub.newState);
+            }
+            const request = { request: entry };
+            if (stub.response.delayMs) {
+                await new Promise(resolve => setTimeout(resolve, stub.response.delayMs));
+            }
+            res.status(stub.response.status).set(renderTemplate(stub.response.headers ?? {}, request) as Record<string, string>);
+            const body = renderTemplate(stub.response.body, request);
+            if (body === undefined) {
+                res.end();
+            } else if (typeof body === 'string') {
+                res.send(body);
+            } else {
+                res.json(body);
+            }
+            return;
+        }
+        sendProblem(res, 404, 'No Stub Matched', `No stub matched ${req.method} ${url.pathname}${url.search}.`);
+    }
+
+    /**
+     * Matches a request against a stub.
+     * @returns The path parameters if the stub matches, undefined otherwise.
+     */
+    private match(stub: StubDefinition, entry: JournalEntry): Record<string, string> | undefined {
+        if (stub.method.toUpperCase() !== entry.method) {
+            return undefined;
+        }
+        if (stub.times !== undefined && (this._matchCounts.get(stub.name) ?? 0) >= stub.times) {
+            return undefined;
+        }
+        if (stub.scenario && stub.requiredState && this.scenarioState(stub.scenario) !== stub.requiredState) {
+            return undefined;
+        }
+        const pathPattern = compilePath(stub.path);
+        const match = pathPattern.regex.exec(entry.path);
+        if (!match) {
+            return undefined;
+        }
+        if (!Object.entries(stub.query ?? {}).every(([key, value]) => entry.query[key] === String(value))) {
+            return undefined;
+        }
+        if (stub.body !== undefined && findMismatches(stub.body, entry.body).length > 0) {
+            return undefined;
+        }
+        return Object.fromEntries(pathPattern.names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+    }
+
+    private scenarioState(name: string): string {
+        return this._scenarios.get(name) ?? SCENARIO_STARTED;
+    }
+}
+
+/**
+ * Parses a JSON request body, keeping other bodies as text and empty bodies as undefined.
+ */
+function parseBody(text: unknown): unknown {
+    if (typeof text !== 'string' || text === '') {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Parses the JSON body of an admin request.
+ */
+function parseJson(text: unknown): any {
+    try {
+        return JSON.parse(typeof text === 'string' ? text : '');
+    } catch {
+        throw Object.assign(Error('The body must be JSON.'), { status: 400, title: 'Bad Request' });
+    }
+}
+
+function sendProblem(res: Response, status: number, title: string, detail: string): void {
+    res.status(status).type('application/problem+json').send(JSON.stringify({ type: 'about:blank', title, status, detail }));
+}
+
+// Run standalone: npx ts-node mocks/StubServer.ts [--port 8089] [--host 0.0.0.0] [fixture file or directory ...]
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const option = (name: string, fallback: string) => {
+        const i = args.indexOf(name);
+        return i >= 0 ? args.splice(i, 2)[1] : fallback;
+    };
+    const port = Number(option('--port', process.env.STUB_SERVER_PORT ?? '8089'));
+    const host = option('--host', '127.0.0.1');
+    const server = new StubServer();
+    args.forEach(fileOrDir => server.load(fileOrDir));
+    server.listen(port, host).then(url => console.log(`Stub server listening on ${url}`));
+}
@@ -1,8 +1,12 @@
-import { ApiCall, ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { Cassette } from "../mocks/Cassette";
 const apiLogger = require('superagent-logger');
 
+const client = new ApiClient('https://reqres.in/api');
+
 const fn = async () => {
-    const apiCall = new ApiCall('https://reqres.in/api/users?page=2', ApiMethod.GET);
+    const apiCall = client.call(ApiMethod.GET, '/users').setQueryParams({ page: '2' });
     // apiCall.setPlugin(logger);
     // apiCall.setPlugin(apiLogger({ outgoing: true, timestamp: true }));
     apiCall.enableLogging()
@@ -10,5 +14,5 @@ const fn = async () => {
     console.log(await apiCall.done());
 }
 
-fn().then();
-// https://reqres.in/api/users?page=2
\ No newline at end of file
+new Cassette('tests/cassettes/reqres-users.json').use(fn).then();
+// https://reqres.in/api/users?page=2
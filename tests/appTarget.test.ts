@@ -0,0 +1,21 @@
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+// Calls to an Express app share its server, which stays bound until the last call in flight completes,
+// so calls built before an earlier one completes can still be sent.
+const fn = async () => {
+    const first = client.call(ApiMethod.GET, '/openapi.json').expectStatus(200);
+    const second = client.call(ApiMethod.GET, '/openapi.json').expectStatus(200);
+    // Never sent: it holds no port, so the script still exits.
+    client.call(ApiMethod.GET, '/openapi.json');
+    await first.done();
+    await second.done();
+    await first.clone().done();
+    await Promise.all([first.clone().done(), second.clone().done()]);
+    console.log('Calls built before an earlier call completed were sent.');
+}
+
+fn().then();
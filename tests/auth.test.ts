@@ -0,0 +1,55 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { ApiKeyAuth, DigestAuth, HmacAuth, OAuth2Auth } from "../api-test-framework/Auth";
+import { AuthServer } from "../mocks/AuthServer";
+
+const fn = async () => {
+    // The token endpoint needs a URL, so the server listens on a port of its own.
+    const server = new AuthServer({ tokenLifetimeSeconds: 2 });
+    const url = await server.listen();
+    try {
+        const client = new ApiClient(url).setAuthProvider(new OAuth2Auth({
+            grant: 'client_credentials', tokenUrl: `${url}/oauth/token`, clientId: 'test-client', clientSecret: 'test-secret', refreshMarginMs: 0
+        }));
+        await client.call(ApiMethod.GET, '/bearer/orders').expectStatus(200).expectBody({ authenticated: 'test-client', method: 'GET', path: '/bearer/orders' }).done();
+        await client.call(ApiMethod.GET, '/bearer/orders').expectStatus(200).done();
+        server.expireTokens();
+        await client.call(ApiMethod.GET, '/bearer/orders').expectStatus(200).done();
+        assert.deepStrictEqual(server.tokenRequests().map(request => request.status), [200, 200]);
+        console.log('An OAuth2 token was shared by calls and fetched again after a 401.');
+
+        server.reset();
+        const user = new ApiClient(url).setAuthProvider(new OAuth2Auth({
+            grant: 'password', username: 'user', password: 'password', tokenUrl: `${url}/oauth/token`,
+            clientId: 'test-client', clientSecret: 'test-secret', clientAuthentication: 'body', refreshMarginMs: 1900
+        }));
+        await user.call(ApiMethod.GET, '/bearer/profile').expectStatus(200).expectBodyContaining({ authenticated: 'user' }).done();
+        await new Promise(resolve => setTimeout(resolve, 200));
+        await user.call(ApiMethod.GET, '/bearer/profile').expectStatus(200).done();
+        assert.deepStrictEqual(server.tokenRequests().map(request => request.grantType), ['password', 'refresh_token']);
+        console.log('A token about to expire was refreshed with its refresh token.');
+
+        const digest = new ApiClient(url).setAuthProvider(new DigestAuth('user', 'password'));
+        await digest.call(ApiMethod.POST, '/digest/orders').setQueryParam('draft', 'true').setBody({ item: 'book' })
+            .expectStatus(200).expectBodyContaining({ authenticated: 'user', path: '/digest/orders?draft=true' }).done();
+        await new ApiClient(url).setAuthProvider(new DigestAuth('user', 'wrong')).call(ApiMethod.GET, '/digest/orders').expectStatus(401).done();
+        console.log('Digest authentication answered the challenge, and failed with a wrong password.');
+
+        const signed = new ApiClient(url).setAuthProvider(new HmacAuth({ keyId: 'test-key', secret: 'test-secret' }));
+        await signed.call(ApiMethod.PUT, '/hmac/orders/1').setBody({ item: 'book' }).expectStatus(200).expectBodyContaining({ authenticated: 'test-key' }).done();
+        await new ApiClient(url).setAuthProvider(new HmacAuth({ keyId: 'test-key', secret: 'wrong' }))
+            .call(ApiMethod.PUT, '/hmac/orders/1').setBody({ item: 'book' }).expectStatus(401).done();
+        console.log('HMAC-signed requests were accepted only with the right secret.');
+
+        await new ApiClient(url).setAuthProvider(new ApiKeyAuth('test-api-key')).call(ApiMethod.GET, '/api-key/orders').expectStatus(200).done();
+        await new ApiClient(url).setAuthProvider(new ApiKeyAuth('test-api-key', { in: 'query' }))
+            .call(ApiMethod.GET, '/api-key/orders').expectStatus(200).expectBodyContaining({ path: '/api-key/orders?api_key=test-api-key' }).done();
+        await new ApiClient(url).call(ApiMethod.GET, '/api-key/orders').expectStatus(401).done();
+        console.log('API keys were sent in a header and in the query.');
+    } finally {
+        await server.close();
+    }
+}
+
+fn().then();
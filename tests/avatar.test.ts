@@ -0,0 +1,68 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+
+process.env.AVATAR_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'avatars-'));
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+/**
+ * A PNG signature followed by filler, so that the images differ in content and size.
+ */
+const png = (fill: number, size: number) => {
+    const bytes = Buffer.alloc(size, fill);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    return bytes;
+};
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+    const upload = (image: Buffer) => client.call(ApiMethod.PUT, '/users/{{id}}/avatar')
+        .attach('avatar', image, { filename: 'avatar.png', contentType: 'image/png' });
+
+    const first = png(1, 1000);
+    const { etag } = (await upload(first).expectStatus(201).expectBodyContaining({ size: first.length }).done()).body;
+    const whole = await client.call(ApiMethod.GET, '/users/{{id}}/avatar').expectStatus(200).done();
+    assert.ok(first.equals(whole.body));
+    const part = await client.call(ApiMethod.GET, '/users/{{id}}/avatar').setHeader('Range', 'bytes=0-99').expectStatus(206).done();
+    assert.ok(first.subarray(0, 100).equals(part.body));
+    await client.call(ApiMethod.GET, '/users/{{id}}/avatar').setHeader('If-None-Match', etag).expectStatus(304).done();
+    console.log('An avatar was uploaded and read whole, by range and conditionally.');
+
+    // Replacing the avatar while it is read: every response has the bytes its headers describe.
+    const images = new Map<string, Buffer>([[etag, first]]);
+    const reads: Array<{ etag: string, body: Uint8Array }> = [];
+    const replace = async () => {
+        for (let i = 0; i < 20; i++) {
+            const image = i % 2 ? png(2, 3000) : png(3, 200000);
+            images.set((await upload(image).expectStatus(200).done()).body.etag, image);
+        }
+    };
+    const read = async () => {
+        for (let i = 0; i < 40; i++) {
+            const res = await client.call(ApiMethod.GET, '/users/{{id}}/avatar').expectStatus(200).done();
+            assert.strictEqual(Number(res.headers['content-length']), res.body.length);
+            reads.push({ etag: res.headers.etag, body: res.body });
+        }
+    };
+    await Promise.all([replace(), read(), read()]);
+    // A read may see an upload before its response arrives, so the ETags are checked afterwards.
+    reads.forEach(({ etag, body }) => assert.ok(images.get(etag)!.equals(body)));
+    // Only the current image is left besides its metadata.
+    assert.strictEqual(fs.readdirSync(process.env.AVATAR_DIR!).length, 2);
+    console.log('Reads of an avatar that was being replaced got consistent images.');
+
+    await client.call(ApiMethod.DELETE, '/users/{{id}}').expectStatus(200).done();
+    assert.deepStrictEqual(fs.readdirSync(process.env.AVATAR_DIR!), []);
+    fs.rmSync(process.env.AVATAR_DIR!, { recursive: true });
+    console.log('Deleting the user removed the avatar.');
+}
+
+fn().then();
@@ -0,0 +1,43 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { arrayOf, assertBodyType, defineBodyType } from "../api-test-framework/BodyTypes";
+import { User, UserListType, UserType } from "./models/User";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+/**
+ * A body type the users of express-app don't have.
+ */
+const ContactType = defineBodyType<{ email: string }>('Contact', { type: 'object', required: ['email'], properties: { email: { type: 'string' } } });
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    const created = await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).as(UserType).done();
+
+    // The bodies are typed: the compiler checks these fields.
+    const user: User = (await client.call(ApiMethod.GET, '/users/:id', { id: created.body._id }).as(UserType).done()).body;
+    const users: User[] = (await client.call(ApiMethod.GET, '/users').as(UserListType).done()).body;
+    assert.strictEqual(user.age + 1, 31);
+    assert.deepStrictEqual(users.map(u => u.name), ['Ann']);
+    const call = client.call(ApiMethod.GET, '/users/:id', { id: user._id }).as(UserType);
+    await call.done();
+    assert.strictEqual(call.getResponseBody().job, 'QA');
+    console.log('Responses were checked against their body types and typed accordingly.');
+
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/:id', { id: user._id }).as(ContactType).done(),
+        /Response body is not a valid Contact:\n {2}\/email: is required/
+    );
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users').as(arrayOf(ContactType)).done(),
+        /Response body is not a valid Contact\[\]:\n {2}\/0\/email: is required/
+    );
+    assert.throws(() => assertBodyType(UserType, { ...user, age: 'thirty' }), /Response body is not a valid User:\n {2}\/age: /);
+    console.log('Bodies of another type failed with the offending fields.');
+}
+
+fn().then();
@@ -0,0 +1,50 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { Cassette, RecordedExchange } from "../mocks/Cassette";
+import { MockRegistry } from "../mocks/MockRegistry";
+const app = require('../express-app/app');
+
+const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-')), 'login.json');
+const login = { username: 'admin', password: 'admin-password' };
+
+const fn = async () => {
+    // Records a login to the in-process app; the password is scrubbed from the cassette.
+    await new Cassette(file, { mode: 'record', scrubBodyFields: ['password'] }).use(async () => {
+        await new ApiClient(app).call(ApiMethod.POST, '/auth/login').setBody(login).expectStatus(200).done();
+    });
+    const [exchange]: RecordedExchange[] = JSON.parse(fs.readFileSync(file, 'utf8')).exchanges;
+    assert.deepStrictEqual(exchange.request.body, { username: 'admin', password: '[scrubbed]' });
+    const recorded = new ApiClient(new URL(exchange.request.url).origin);
+
+    // Replays the login with the app's server closed, next to calls to a new server for the app.
+    const cassette = new Cassette(file, { mode: 'replay', allowedHosts: ['127.0.0.1'] });
+    await cassette.use(async () => {
+        await recorded.call(ApiMethod.POST, '/auth/login').setBody({ ...login, password: 'other' }).expectStatus(200).done();
+        await new ApiClient(app).call(ApiMethod.GET, '/openapi.json').expectStatus(200).done();
+    });
+    console.log('Replayed the cassette next to the allowed in-process app.');
+
+    await assert.rejects(
+        cassette.use(() => recorded.call(ApiMethod.GET, '/openapi.json').done()),
+        /Requests not in cassette .*\n {2}GET http:\/\/127\.0\.0\.1:\d+\/openapi\.json$/
+    );
+    await cassette.use(() => recorded.call(ApiMethod.POST, '/auth/login').setBody(login).expectStatus(200).done());
+    console.log('A request not in the cassette failed its use, and not the next one.');
+
+    // A MockRegistry installed alongside keeps its mocks and the network disabled.
+    const registry = new MockRegistry()
+        .add({ name: 'ping', baseUrl: 'http://mocked.test', method: 'GET', path: '/ping', response: { status: 204 } })
+        .install(['127.0.0.1']);
+    await cassette.use(() => recorded.call(ApiMethod.POST, '/auth/login').setBody(login).expectStatus(200).done());
+    await new ApiClient('http://mocked.test').call(ApiMethod.GET, '/ping').expectStatus(204).done();
+    await assert.rejects(new ApiClient('http://unmocked.test').call(ApiMethod.GET, '/').done(), /Disallowed net connect/);
+    registry.uninstall();
+    fs.rmSync(path.dirname(file), { recursive: true });
+    console.log('The mock registry kept its mocks and the network disabled after the cassette stopped.');
+}
+
+fn().then();
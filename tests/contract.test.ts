@@ -0,0 +1,28 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { OpenApiContract } from "../api-test-framework/OpenApiContract";
+const app = require('../express-app/app');
+
+const fn = async () => {
+    const client = new ApiClient(app).setContract(await OpenApiContract.load(app));
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+
+    // Every call of the client is checked against the contract.
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+    await client.call(ApiMethod.GET, '/users/{{id}}').expectStatus(200).done();
+    await client.call(ApiMethod.GET, '/users').setQueryParams({ page: '1', limit: '5' }).expectStatus(200).done();
+    await client.call(ApiMethod.DELETE, '/users/{{id}}').expectStatus(200).done();
+    console.log('Calls of a client with a contract were checked against it.');
+
+    // An invalid request fails the contract, unless the negative test skips the request check.
+    const invalid = () => client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', age: 'thirty' }).expectStatus(400);
+    await assert.rejects(invalid().done(), /Request body does not match the schema/);
+    await invalid().skipContract('request').done();
+    await invalid().skipContract().done();
+    console.log('A negative test skipped the contract check of its request.');
+}
+
+fn().then();
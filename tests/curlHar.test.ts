@@ -0,0 +1,42 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ApiCall, ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { startHarRecording, stopHarRecording } from "../api-test-framework/Har";
+const app = require('../express-app/app');
+
+const fn = async () => {
+    // A curl command needs a URL, so the app listens on a port of its own.
+    const server = http.createServer(app).listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const client = new ApiClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    startHarRecording();
+    try {
+        const login = client.call(ApiMethod.POST, '/auth/login')
+            .setQueryParam('source', 'curl test')
+            .setHeader('X-Request-Id', 'abc')
+            .setBody({ username: 'admin', password: 'admin-password' });
+        const curl = login.toCurl();
+        assert.match(curl, /-H 'X-Request-Id: abc'/);
+        const replayed = ApiCall.fromCurl(curl);
+        assert.strictEqual(replayed.toCurl(), curl);
+        await replayed.expectStatus(200).done();
+        console.log('A call made from its own curl command printed the same command and was sent.');
+
+        const [entry] = stopHarRecording().log.entries;
+        assert.strictEqual(entry.request.method, 'POST');
+        assert.strictEqual(entry.request.url, `${client.getTarget()}/auth/login?source=curl%20test`);
+        assert.strictEqual(entry.request.httpVersion, 'HTTP/1.1');
+        assert.ok(entry.request.headers.some(h => h.name.toLowerCase() === 'x-request-id' && h.value === 'abc'));
+        assert.deepStrictEqual(JSON.parse(entry.request.postData!.text), { username: 'admin', password: 'admin-password' });
+        assert.deepStrictEqual([entry.response.status, entry.response.statusText], [200, 'OK']);
+        assert.ok(JSON.parse(entry.response.content.text!).access_token);
+        console.log('The HAR log recorded the request and response.');
+    } finally {
+        stopHarRecording();
+        server.close();
+    }
+}
+
+fn().then();
@@ -0,0 +1,57 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+
+process.env.AVATAR_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'avatars-'));
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+    // The avatar endpoint serves byte ranges, so downloads of it can be resumed.
+    const image = Buffer.alloc(300000, 7);
+    image.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    await client.call(ApiMethod.PUT, '/users/{{id}}/avatar')
+        .attach('avatar', image, { filename: 'avatar.png', contentType: 'image/png' }).expectStatus(201).done();
+    const downloads = fs.mkdtempSync(path.join(os.tmpdir(), 'downloads-'));
+    const getAvatar = client.call(ApiMethod.GET, '/users/{{id}}/avatar');
+
+    const full = path.join(downloads, 'full.png');
+    const whole = await getAvatar.clone().downloadTo(full).expectStatus(200).expectDownloadSize(image.length).done();
+    const { sha256 } = whole.body;
+    assert.deepStrictEqual(fs.readFileSync(full), image);
+    console.log('The avatar was streamed to a file.');
+
+    const partial = path.join(downloads, 'partial.png');
+    fs.copyFileSync(full, partial);
+    fs.truncateSync(partial, 1000);
+    const resumed = await getAvatar.clone().downloadTo(partial, { resume: true })
+        .expectStatus(206).expectDownloadSize(image.length).expectDownloadSha256(sha256).done();
+    assert.deepStrictEqual([resumed.body.offset, resumed.body.bytes], [1000, image.length - 1000]);
+    assert.deepStrictEqual(fs.readFileSync(partial), image);
+    const complete = await getAvatar.clone().downloadTo(partial, { resume: true }).expectStatus(416).expectDownloadSha256(sha256).done();
+    assert.strictEqual(complete.body.bytes, 0);
+    console.log('A partial download was resumed with a range request, and a complete one was left as it was.');
+
+    const stream = new PassThrough();
+    const received: Uint8Array[] = [];
+    stream.on('data', chunk => received.push(chunk));
+    await getAvatar.clone().downloadTo(stream).expectDownloadSize(image.length).done();
+    assert.strictEqual(received.reduce((size, chunk) => size + chunk.length, 0), image.length);
+    await assert.rejects(getAvatar.clone().downloadTo(path.join(downloads, 'other.png')).expectDownloadSha256('00').done(),
+        new RegExp(`Expected a download with SHA-256 00, got ${sha256}`));
+    console.log('The avatar was streamed to a stream, and a wrong checksum failed the call.');
+
+    fs.rmSync(downloads, { recursive: true });
+    fs.rmSync(process.env.AVATAR_DIR!, { recursive: true });
+}
+
+fn().then();
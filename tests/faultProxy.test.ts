@@ -0,0 +1,47 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { FaultProxy } from "../mocks/FaultProxy";
+const app = require('../express-app/app');
+
+const fn = async () => {
+    // The proxy forwards to a URL, so the app listens on a port of its own.
+    const server = http.createServer(app).listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const proxy = new FaultProxy(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { seed: 7 });
+    const client = new ApiClient(await proxy.listen());
+    try {
+        proxy.setRules([{
+            method: 'GET',
+            path: '/openapi.json',
+            faults: [{ type: 'latency', ms: 5, jitterMs: 50 }, { type: 'error', status: 503, percentage: 50 }]
+        }]);
+        const send = () => client.call(ApiMethod.GET, '/openapi.json').done();
+        for (let i = 0; i < 8; i++) {
+            await send();
+        }
+        const sequential = proxy.requests();
+        assert.ok(sequential.some(request => request.faults.includes('error')));
+        assert.ok(sequential.some(request => !request.faults.includes('error')));
+        proxy.reset();
+        await Promise.all(Array.from({ length: 8 }, send));
+        assert.deepStrictEqual(proxy.requests(), sequential);
+        console.log('Concurrent requests saw the same faults and jitter as sequential ones with the same seed.');
+
+        proxy.setRules([{ path: '/openapi.json', faults: [{ type: 'reset', percentage: 30 }, { type: 'error', percentage: 30 }] }]);
+        await client.call(ApiMethod.GET, '/openapi.json').setRetry(10).expectStatus(200).done();
+        assert.ok(proxy.requests().length > 1);
+        console.log(`A call with retries got through ${proxy.requests().length - 1} injected fault(s).`);
+
+        proxy.setRules([{ path: '/openapi.json', faults: [{ type: 'latency', ms: 1000 }] }]);
+        await assert.rejects(client.call(ApiMethod.GET, '/openapi.json').setTimeout(300).done(), /Timeout of 300ms exceeded/);
+        console.log('A slow response exceeded the timeout of the call.');
+    } finally {
+        await proxy.close();
+        server.close();
+    }
+}
+
+fn().then();
@@ -0,0 +1,41 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { JsonSchema, schemaFromMongoose } from "../api-test-framework/JsonSchema";
+const app = require('../express-app/app');
+const { UserSchema } = require('../express-app/models');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+
+    // The schema is built from the model the app stores users with.
+    const userSchema = schemaFromMongoose(UserSchema);
+    const getUser = client.call(ApiMethod.GET, '/users/{{id}}').expectStatus(200).expectJsonSchema(userSchema);
+    await getUser.done();
+    await getUser.clone().done();
+    await client.call(ApiMethod.GET, '/users').expectJsonSchema({ type: 'array', items: userSchema }).done();
+    console.log('Users matched the JSON Schema of their model.');
+
+    // Equal schemas with the same $id are compiled once.
+    const withId = (): JsonSchema => ({ $id: 'https://example.com/schemas/user.json', ...userSchema });
+    await client.call(ApiMethod.GET, '/users/{{id}}').expectJsonSchema(withId()).done();
+    await client.call(ApiMethod.GET, '/users/{{id}}').expectJsonSchema(withId()).done();
+    console.log('Two calls checked equal schemas with the same $id.');
+
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectJsonSchema({ ...userSchema, required: ['email'] }).done(),
+        /Response body does not match the JSON Schema:\n {2}\/email: is required/
+    );
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectJsonSchema(schemaFromMongoose(UserSchema, { includeIdAndVersion: false })).done(),
+        /\/_id: is not allowed\n {2}\/__v: is not allowed/
+    );
+    console.log('Violations were reported by JSON pointer.');
+}
+
+fn().then();
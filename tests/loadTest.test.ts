@@ -0,0 +1,53 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { LoadTest } from "../api-test-framework/LoadTest";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    const listUsers = client.call(ApiMethod.GET, '/users').expectStatus(200);
+
+    const outputFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'load-')), 'list-users.json');
+    const result = await new LoadTest(listUsers, {
+        name: 'list users',
+        profile: { type: 'virtualUsers', users: 3, iterations: 10 },
+        thresholds: ['requests >= 30', 'errors < 1%', 'p95 < 2s'],
+        outputFile
+    }).run();
+    assert.deepStrictEqual([result.requests, result.errors, result.statusCodes], [30, 0, { 200: 30 }]);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(outputFile, 'utf8')), result);
+    fs.rmSync(path.dirname(outputFile), { recursive: true });
+    console.log('Virtual users met the thresholds, and the results were written as JSON.');
+
+    const arrivals = await new LoadTest(listUsers, {
+        profile: { type: 'arrivalRate', rate: 20, duration: 500 },
+        thresholds: ['errors < 1%'],
+        printSummary: false
+    }).run();
+    assert.ok(arrivals.requests >= 8 && arrivals.requests <= 10);
+    console.log(`A constant arrival rate started ${arrivals.requests} calls in half a second.`);
+
+    // A failed assertion counts as an error.
+    await assert.rejects(
+        new LoadTest(client.call(ApiMethod.GET, '/users/:id', { id: '6650a1f2c3d4e5f6a7b8c9d0' }).expectStatus(200), {
+            name: 'missing user',
+            profile: { type: 'virtualUsers', users: 2, iterations: 3 },
+            thresholds: ['errors < 1%'],
+            printSummary: false
+        }).run(),
+        /Load test 'missing user' failed its thresholds:\n {2}errors < 1% \(actual 100\)/
+    );
+    assert.throws(() => new LoadTest(listUsers, { profile: { type: 'virtualUsers', users: 1, iterations: 1 }, thresholds: ['p95 under 200ms'] }),
+        /Invalid threshold 'p95 under 200ms'/);
+    console.log('Thresholds that were not met failed the run.');
+}
+
+fn().then();
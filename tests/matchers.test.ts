@@ -0,0 +1,40 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { match } from "../api-test-framework/Matchers";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+
+    await client.call(ApiMethod.GET, '/users/{{id}}')
+        .expectBodyContaining({ _id: match.objectId(), name: match.regex(/^A/), age: match.numberInRange(18, 65) })
+        .expectJsonPath('$.job', match.anyString())
+        .done();
+    await client.call(ApiMethod.GET, '/users')
+        .expectBodyContaining(match.arrayContaining([{ name: 'Ann', job: 'QA' }]))
+        .expectJsonPath('$[0].age', match.anyNumber())
+        .done();
+    console.log('Users matched partial bodies and JSONPaths with matchers.');
+
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectBodyContaining({ name: 'Bob', age: match.numberInRange(40, 65) }).done(),
+        /\$\.name: expected "Bob", got "Ann"\n {2}\$\.age: expected <number between 40 and 65>, got 30/
+    );
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectJsonPath('$.job', Symbol.for('QA')).done(),
+        /\$\.job: expected Symbol\(QA\), got "QA"/
+    );
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectBodyContaining({ job: () => 'QA', email: match.anyString() }).done(),
+        /\$\.job: expected \(\) => 'QA', got "QA"\n {2}\$\.email: expected <any string>, got undefined/
+    );
+    console.log('Mismatches were reported by JSONPath, also for values JSON cannot show.');
+}
+
+fn().then();
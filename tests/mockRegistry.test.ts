@@ -0,0 +1,34 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { MockRegistry } from "../mocks/MockRegistry";
+const app = require('../express-app/app');
+
+const mocked = new ApiClient('http://127.0.0.1:8080');
+
+const fn = async () => {
+    // The in-process app runs on 127.0.0.1 as well, on another port.
+    const mocks = new MockRegistry().load('mocks/fixtures').install(['127.0.0.1']);
+    const created = await mocked.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).done();
+    assert.deepStrictEqual([created.body.name, created.body.age], ['Ann', 30]);
+    await mocked.call(ApiMethod.GET, '/users/:id', { id: 'abc' }).expectStatus(200).expectBodyContaining({ _id: 'abc' }).done();
+    await new ApiClient(app).call(ApiMethod.GET, '/openapi.json').expectStatus(200).done();
+    mocks.verify('create user', 1, { job: 'QA' }).verify('get user', 0).verifyAll();
+    console.log('Mocks answered from their templates, and the allowed app is no unmatched request.');
+
+    await assert.rejects(mocked.call(ApiMethod.GET, '/unknown').done());
+    await assert.rejects(new ApiClient('http://unmocked.test').call(ApiMethod.GET, '/').done(), /Disallowed net connect/);
+    assert.deepStrictEqual(mocks.unmatchedRequests(), ['GET http://127.0.0.1:8080/unknown', 'GET http://unmocked.test/']);
+    assert.throws(() => mocks.verifyAll(), /No mock matched GET http:\/\/127\.0\.0\.1:8080\/unknown/);
+    mocks.reset().verifyAll();
+    console.log('Requests that no mock matched were listed by verifyAll.');
+
+    // The network stays disabled while another registry is still installed.
+    const other = new MockRegistry().install(['127.0.0.1']);
+    mocks.uninstall();
+    await assert.rejects(new ApiClient('http://unmocked.test').call(ApiMethod.GET, '/').done(), /Disallowed net connect/);
+    other.uninstall();
+    console.log('Uninstalling one registry kept the network disabled for the other.');
+}
+
+fn().then();
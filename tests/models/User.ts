@@ -0,0 +1,27 @@
+import { arrayOf, defineBodyType } from "../../api-test-framework/BodyTypes";
+import { schemaFromMongoose } from "../../api-test-framework/JsonSchema";
+const { UserSchema } = require('../../express-app/models');
+
+/**
+ * A user of express-app as the `/users` routes return it, see `UserSchema` in `express-app/models.js`.
+ */
+export interface User {
+    _id: string;
+    name: string;
+    job: string;
+    age: number;
+    isMarried: boolean;
+    __v: number;
+}
+
+/**
+ * The body type of a user. Responses are checked at runtime against the schema built from `UserSchema`,
+ * but `User` itself is written by hand, so it has to be changed along with the model.
+ * e.g. const user = (await client.call(ApiMethods.GET, '/users/:id', { id }).as(UserType).done()).body;
+ */
+export const UserType = defineBodyType<User>('User', schemaFromMongoose(UserSchema));
+
+/**
+ * The body type of a page of users, as `GET /users` returns it.
+ */
+export const UserListType = arrayOf(UserType);
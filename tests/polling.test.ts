@@ -0,0 +1,38 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 }).expectStatus(201).extract('$._id', 'id').done();
+
+    // The user changes jobs a little later, as if a background job updated it.
+    const changed = new Promise(resolve => setTimeout(resolve, 300)).then(() =>
+        client.call(ApiMethod.PATCH, '/users/{{id}}').setContentType('application/merge-patch+json').setBody({ job: 'Dev' }).expectStatus(200).done());
+    const getUser = client.call(ApiMethod.GET, '/users/{{id}}').expectStatus(200);
+    const user = await getUser.clone().expectBodyContaining({ name: 'Ann' })
+        .pollUntil(res => res.body.job === 'Dev', { interval: 50, timeout: 5000, backoff: 1.5 });
+    assert.strictEqual(user.body.job, 'Dev');
+    await changed;
+    console.log('Polling returned once the change was visible.');
+
+    await assert.rejects(
+        getUser.clone().pollUntil(res => res.body.job === 'Boss', { interval: 100, timeout: 350 }),
+        /GET \/users\/\w+ did not satisfy the condition within 350 ms:\n {2}#1: 200 \{.*"job":"Dev".*\}\n {2}#2: 200 /
+    );
+    console.log('Polling that timed out failed with the history of responses.');
+
+    // The assertions are checked once, on the response that satisfied the condition.
+    await assert.rejects(
+        getUser.clone().expectBodyContaining({ age: 31 }).pollUntil(res => res.body.job === 'Dev', { interval: 50, timeout: 1000 }),
+        /\$\.age: expected 31, got 30/
+    );
+    console.log('The assertions failed on the response that satisfied the condition, without polling on.');
+}
+
+fn().then();
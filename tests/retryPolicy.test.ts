@@ -0,0 +1,56 @@
+import assert from 'assert';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { RetryPolicy } from "../api-test-framework/RetryPolicy";
+import { StubAdminClient } from "../mocks/StubAdminClient";
+import { StubServer } from "../mocks/StubServer";
+
+const fn = async () => {
+    const server = new StubServer();
+    const url = await server.listen();
+    const client = new ApiClient(url);
+    const stubs = new StubAdminClient(url);
+    const policy = new RetryPolicy({ maxRetries: 3, baseDelayMs: 10, jitter: false });
+    try {
+        // The service is unavailable, then busy, then answers.
+        for (const method of ['GET', 'POST']) {
+            const stub = { method, path: '/users', scenario: `flaky ${method}` };
+            await stubs.addStub({ ...stub, name: `${method} unavailable`, requiredState: 'Started', newState: 'Busy',
+                response: { status: 503, headers: { 'Retry-After': '0' } } });
+            await stubs.addStub({ ...stub, name: `${method} busy`, requiredState: 'Busy', newState: 'Up', response: { status: 429 } });
+            await stubs.addStub({ ...stub, name: `${method} up`, requiredState: 'Up', response: { status: 200, body: [] } });
+        }
+
+        const get = client.call(ApiMethod.GET, '/users').setRetryPolicy(policy).expectStatus(200);
+        await get.done();
+        assert.deepStrictEqual(get.getAttempts(), [
+            { attempt: 1, status: 503, retried: true, delayMs: 0, reason: 'status 503, Retry-After' },
+            { attempt: 2, status: 429, retried: true, delayMs: 20, reason: 'status 429' },
+            { attempt: 3, status: 200, retried: false, reason: 'status 200 is not retried' }
+        ]);
+        console.log('A GET was retried after the wait Retry-After asked for, then with backoff.');
+
+        const post = () => client.call(ApiMethod.POST, '/users').setRetryPolicy(policy).setBody({ name: 'Ann' });
+        const unretried = post().expectStatus(503);
+        await unretried.done();
+        assert.deepStrictEqual(unretried.getAttempts(), [
+            { attempt: 1, status: 503, retried: false, reason: 'POST is not idempotent and has no Idempotency-Key' }
+        ]);
+        await stubs.reset();
+        const retried = post().setHeader('Idempotency-Key', 'create-ann').expectStatus(200);
+        await retried.done();
+        assert.strictEqual(retried.getAttempts().length, 3);
+        console.log('A POST was only retried with an Idempotency-Key.');
+    } finally {
+        await server.close();
+    }
+
+    // Nothing listens on the port anymore.
+    const refused = client.call(ApiMethod.GET, '/users').setRetryPolicy(new RetryPolicy({ maxRetries: 2, baseDelayMs: 10 }));
+    await assert.rejects(refused.done(), /ECONNREFUSED/);
+    assert.deepStrictEqual(refused.getAttempts().map(({ error, retried }) => [error, retried]),
+        [['ECONNREFUSED', true], ['ECONNREFUSED', true], ['ECONNREFUSED', false]]);
+    console.log('A refused connection was retried until no retries were left.');
+}
+
+fn().then();
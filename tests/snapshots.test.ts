@@ -0,0 +1,40 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { reportUnusedSnapshots } from "../api-test-framework/Snapshots";
+const app = require('../express-app/app');
+
+const client = new ApiClient(app);
+
+const fn = async () => {
+    const login = await client.call(ApiMethod.POST, '/auth/login')
+        .setBody({ username: 'admin', password: 'admin-password' }).expectStatus(200).done();
+    client.setDefaultHeader('Authorization', `Bearer ${login.body.access_token}`);
+
+    // Compared with __snapshots__/snapshots.test.ts.snap.json; _id, __v and the date header are redacted.
+    await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 })
+        .expectMatchesSnapshot('create user', { headers: ['content-type', 'etag'] })
+        .extract('$._id', 'id').done();
+    await client.call(ApiMethod.GET, '/users/{{id}}').expectMatchesSnapshot('get user').done();
+    await client.call(ApiMethod.GET, '/users/{{id}}')
+        .expectMatchesSnapshot('get user with redacted age', { redact: ['$.body._id', '$.body.age'] }).done();
+    console.log('Responses matched their stored snapshots.');
+
+    // A changed response fails with a diff of the snapshot.
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-')), 'changed.snap.json');
+    const body = { name: 'Ann', job: 'Dev', age: 30, isMarried: true, _id: '[redacted]', __v: '[redacted]' };
+    const stored = { status: 200, headers: { 'content-type': 'application/json; charset=utf-8' }, body };
+    fs.writeFileSync(file, JSON.stringify({ 'get user': stored, 'removed test': stored }));
+    await assert.rejects(
+        client.call(ApiMethod.GET, '/users/{{id}}').expectMatchesSnapshot('get user', { file }).done(),
+        /Response does not match snapshot 'get user'[^]*\n- {5}"job": "Dev",\n\+ {5}"job": "QA",\n/
+    );
+    assert.deepStrictEqual(reportUnusedSnapshots(), [{ file, name: 'removed test' }]);
+    fs.rmSync(path.dirname(file), { recursive: true });
+    console.log('A changed response was reported with a diff, and an unused snapshot was listed.');
+}
+
+fn().then();
@@ -0,0 +1,54 @@
+import assert from 'assert';
+import path from 'path';
+import { ApiMethods as ApiMethod } from "../api-test-framework/ApiCall"
+import { ApiClient } from "../api-test-framework/ApiClient";
+import { match } from "../api-test-framework/Matchers";
+import { StubAdminClient } from "../mocks/StubAdminClient";
+import { StubServer } from "../mocks/StubServer";
+
+const fn = async () => {
+    const server = new StubServer().load(path.join(__dirname, '../mocks/fixtures'));
+    const url = await server.listen();
+    const client = new ApiClient(url);
+    const stubs = new StubAdminClient(url);
+    try {
+        // The fixtures are served on a real port, with templates filled from the request.
+        await client.call(ApiMethod.POST, '/users').setBody({ name: 'Ann', job: 'QA', age: 30 })
+            .expectStatus(201).expectBodyContaining({ name: 'Ann', job: 'QA' }).done();
+        await client.call(ApiMethod.GET, '/users/:id', { id: 'abc' }).expectStatus(200).expectBodyContaining({ _id: 'abc' }).done();
+        await stubs.verify('create user', 1, { name: match.anyString(), job: 'QA' });
+        await stubs.verify('get user by id', 1);
+        await assert.rejects(stubs.verify('get user by id', 2), /Stub 'get user by id' was called 1 time\(s\), expected 2\./);
+        console.log('Fixture stubs answered and were verified through the admin API.');
+
+        await client.call(ApiMethod.GET, '/orders').expectStatus(404).done();
+        assert.deepStrictEqual((await stubs.unmatchedRequests()).map(entry => `${entry.method} ${entry.path}`), ['GET /orders']);
+        console.log('A request that matched no stub was journaled as unmatched.');
+
+        // A scenario: the order is pending until it is shipped.
+        const order = { method: 'GET', path: '/orders/:id', scenario: 'order' };
+        await stubs.addStub({ ...order, name: 'pending order', requiredState: 'Started', newState: 'Paid',
+            response: { status: 200, body: { id: '{{request.params.id}}', status: 'pending' } } });
+        await stubs.addStub({ ...order, name: 'shipped order', requiredState: 'Shipped',
+            response: { status: 200, body: { id: '{{request.params.id}}', status: 'shipped' } } });
+        assert.deepStrictEqual((await stubs.listStubs()).map(stub => stub.name).slice(-2), ['pending order', 'shipped order']);
+        await client.call(ApiMethod.GET, '/orders/1').expectStatus(200).expectBody({ id: '1', status: 'pending' }).done();
+        assert.deepStrictEqual(await stubs.scenarios(), { order: 'Paid' });
+        await client.call(ApiMethod.GET, '/orders/1').expectStatus(404).done();
+        await stubs.setScenarioState('order', 'Shipped');
+        await client.call(ApiMethod.GET, '/orders/1').expectStatus(200).expectBody({ id: '1', status: 'shipped' }).done();
+        console.log('Stubs of a scenario answered in turn as its state moved.');
+
+        await stubs.reset();
+        assert.deepStrictEqual(await stubs.journal(), []);
+        await client.call(ApiMethod.GET, '/orders/1').expectStatus(200).expectBody({ id: '1', status: 'pending' }).done();
+        await stubs.removeStub('pending order');
+        await stubs.removeAllStubs();
+        assert.deepStrictEqual(await stubs.listStubs(), []);
+        console.log('Resetting kept the stubs and restarted the scenario; the stubs were removed after.');
+    } finally {
+        await server.close();
+    }
+}
+
+fn().then();
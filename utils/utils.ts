@@ -1 +1,32 @@
-// to be written
\ No newline at end of file
+import { JSONPath } from "jsonpath-plus";
+
+/**
+ * Fills the `:name` placeholders of a path template with URL-encoded values.
+ * e.g. resolvePath('/users/:id', { id: 'a b' }) => '/users/a%20b'
+ * @param template - The path template.
+ * @param params - The values for the path placeholders.
+ * @returns The resolved path.
+ */
+export function resolvePath(template: string, params: Record<string, string | number | boolean> = {}): string {
+    return template.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, name: string) => {
+        if (!(name in params)) {
+            throw Error(`Missing value for path parameter '${name}' in '${template}'.`);
+        }
+        return encodeURIComponent(String(params[name]));
+    });
+}
+
+
+/**
+ * Evaluates a JSONPath expression against a JSON value.
+ * e.g. queryJsonPath({ data: [{ id: 1 }, { id: 2 }] }, '$.data[*].id') => [1, 2]
+ * @param json - The JSON value.
+ * @param path - The JSONPath expression.
+ * @returns Every matched value, empty when nothing matches.
+ */
+export function queryJsonPath(json: unknown, path: string): unknown[] {
+    if (json === undefined) {
+        return [];
+    }
+    return JSONPath({ path, json, wrap: true }) ?? [];
+}